@@ -1,14 +1,56 @@
 export const api: any = {
   poker: {
     getRoom: "poker:getRoom",
+    getRounds: "poker:getRounds",
+    exportSession: "poker:exportSession",
     joinRoom: "poker:joinRoom",
+    reclaimPlayer: "poker:reclaimPlayer",
     vote: "poker:vote",
+    setRationale: "poker:setRationale",
+    getComments: "poker:getComments",
+    addComment: "poker:addComment",
+    getEvents: "poker:getEvents",
+    react: "poker:react",
+    nudge: "poker:nudge",
+    setRole: "poker:setRole",
     reveal: "poker:reveal",
     reset: "poker:reset",
+    startRevote: "poker:startRevote",
+    finalizeRound: "poker:finalizeRound",
     heartbeat: "poker:heartbeat",
-    cleanOldPlayers: "poker:cleanOldPlayers",
-    setMaxFib: "poker:setMaxFib",
+    getPresence: "poker:getPresence",
+    setDeck: "poker:setDeck",
     leaveRoom: "poker:leaveRoom",
     updatePlayerName: "poker:updatePlayerName",
+    addStory: "poker:addStory",
+    importStories: "poker:importStories",
+    moveStory: "poker:moveStory",
+    selectStory: "poker:selectStory",
+    skipStory: "poker:skipStory",
+    startTimer: "poker:startTimer",
+    pauseTimer: "poker:pauseTimer",
+    resumeTimer: "poker:resumeTimer",
+    extendTimer: "poker:extendTimer",
+    stopTimer: "poker:stopTimer",
+    updateSettings: "poker:updateSettings",
+    setPasscode: "poker:setPasscode",
+    renameRoom: "poker:renameRoom",
+    transferGM: "poker:transferGM",
+    setBackupGM: "poker:setBackupGM",
+    setCoFacilitator: "poker:setCoFacilitator",
+    kickPlayer: "poker:kickPlayer",
+    forceObserver: "poker:forceObserver",
+  }
+};
+
+export const internal: any = {
+  cleanup: {
+    sweep: "cleanup:sweep",
+  },
+  poker: {
+    expireTimer: "poker:expireTimer",
+    markLeft: "poker:markLeft",
+    finalizeLeave: "poker:finalizeLeave",
+    expireEvent: "poker:expireEvent",
   }
 };
@@ -0,0 +1,104 @@
+import { internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { resolveSettings } from "./lib/settings";
+import { gmTimeoutMs, promoteSuccessor } from "./lib/succession";
+import { PLAYER_TIMEOUT_MS, ROOM_TIMEOUT_MS } from "./lib/timeouts";
+
+async function deleteRoom(ctx: MutationCtx, roomId: Id<"rooms">) {
+  const players = await ctx.db
+    .query("players")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  for (const player of players) {
+    await ctx.db.delete(player._id);
+  }
+
+  const presence = await ctx.db
+    .query("presence")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  for (const entry of presence) {
+    await ctx.db.delete(entry._id);
+  }
+
+  const stories = await ctx.db
+    .query("stories")
+    .withIndex("by_room_order", (q) => q.eq("roomId", roomId))
+    .collect();
+  for (const story of stories) {
+    await ctx.db.delete(story._id);
+  }
+
+  const rounds = await ctx.db
+    .query("rounds")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  for (const round of rounds) {
+    await ctx.db.delete(round._id);
+  }
+
+  const comments = await ctx.db
+    .query("comments")
+    .withIndex("by_room_round", (q) => q.eq("roomId", roomId))
+    .collect();
+  for (const comment of comments) {
+    await ctx.db.delete(comment._id);
+  }
+
+  const events = await ctx.db
+    .query("events")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  for (const event of events) {
+    await ctx.db.delete(event._id);
+  }
+
+  await ctx.db.delete(roomId);
+}
+
+/** Removes timed-out players and abandoned rooms across every room. */
+export const sweep = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const stalePresence = await ctx.db
+      .query("presence")
+      .withIndex("by_lastPing", (q) =>
+        q.lt("lastPing", now - PLAYER_TIMEOUT_MS)
+      )
+      .collect();
+
+    for (const entry of stalePresence) {
+      const player = await ctx.db.get(entry.playerId);
+      if (player?.isGM) {
+        // The room may be holding the seat for its GM a while longer
+        const room = await ctx.db.get(player.roomId);
+        const timeout = room ? gmTimeoutMs(resolveSettings(room)) : 0;
+        if (entry.lastPing >= now - timeout) continue;
+      }
+
+      await ctx.db.delete(entry._id);
+      if (!player) continue;
+      await ctx.db.delete(player._id);
+
+      // If the GM left, assign a new GM
+      if (player.isGM) await promoteSuccessor(ctx, player.roomId);
+    }
+
+    // Rooms that never recorded an interaction are left alone
+    const staleRooms = await ctx.db
+      .query("rooms")
+      .withIndex("by_lastInteraction", (q) =>
+        q
+          .gt("lastInteraction", 0)
+          .lt("lastInteraction", now - ROOM_TIMEOUT_MS)
+      )
+      .collect();
+
+    for (const room of staleRooms) {
+      await deleteRoom(ctx, room._id);
+    }
+  },
+});
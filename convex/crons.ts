@@ -0,0 +1,13 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+import { CLEANUP_INTERVAL_MINUTES } from "./lib/timeouts";
+
+const crons = cronJobs();
+
+crons.interval(
+  "sweep stale players and rooms",
+  { minutes: CLEANUP_INTERVAL_MINUTES },
+  internal.cleanup.sweep
+);
+
+export default crons;
@@ -0,0 +1,31 @@
+import { httpRouter } from "convex/server";
+import { internal } from "./_generated/api";
+import { httpAction } from "./_generated/server";
+
+const http = httpRouter();
+
+/**
+ * Beacon target for a closing tab. `navigator.sendBeacon` cannot set
+ * headers, so the body is JSON sent as text/plain, which also keeps the
+ * request free of a CORS preflight.
+ */
+http.route({
+  path: "/leave",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    let sessionToken: unknown;
+    try {
+      ({ sessionToken } = JSON.parse(await request.text()));
+    } catch {
+      return new Response("Expected a JSON body", { status: 400 });
+    }
+    if (typeof sessionToken !== "string") {
+      return new Response("Missing sessionToken", { status: 400 });
+    }
+
+    await ctx.runMutation(internal.poker.markLeft, { sessionToken });
+    return new Response(null, { status: 204 });
+  }),
+});
+
+export default http;
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  type VoteEntry,
+  analyzeVotes,
+  buildDistribution,
+  calculateAverage,
+} from "./analytics";
+import { DECK_PRESETS } from "./deck";
+
+const fibonacci = DECK_PRESETS.find((deck) => deck.id === "fibonacci")!.cards;
+
+const entries = (...votes: string[]): VoteEntry[] =>
+  votes.map((vote, index) => ({
+    playerId: `p${index}`,
+    nickname: `Player ${index}`,
+    vote,
+  }));
+
+describe("analyzeVotes", () => {
+  it("takes the middle value as the median of an odd count", () => {
+    const stats = analyzeVotes(entries("8", "1", "3"), fibonacci);
+    expect(stats.median).toBe(3);
+    expect(stats.min).toBe(1);
+    expect(stats.max).toBe(8);
+  });
+
+  it("averages the two middle values as the median of an even count", () => {
+    const stats = analyzeVotes(entries("1", "5", "2", "3"), fibonacci);
+    expect(stats.median).toBe(2.5);
+    expect(stats.mean).toBe(2.75);
+  });
+
+  it("lists every tied card as the mode", () => {
+    const stats = analyzeVotes(entries("3", "5", "3", "5", "8"), fibonacci);
+    expect(stats.mode).toEqual(["3", "5"]);
+    expect(stats.agreement).toBeCloseTo(0.4);
+  });
+
+  it("leaves non-numeric cards out of the figures but not the mode", () => {
+    const stats = analyzeVotes(entries("?", "☕", "5", "?"), fibonacci);
+    expect(stats.numericCount).toBe(1);
+    expect(stats.mean).toBe(5);
+    expect(stats.mode).toEqual(["?"]);
+    expect(stats.agreement).toBe(0.5);
+    expect(stats.nearestCard).toBe("5");
+  });
+
+  it("has no figures when nobody picked a numeric card", () => {
+    const stats = analyzeVotes(entries("?", "☕"), fibonacci);
+    expect(stats.numericCount).toBe(0);
+    expect(stats.mean).toBeNull();
+    expect(stats.median).toBeNull();
+    expect(stats.nearestCard).toBeNull();
+    expect(stats.outliers).toEqual({ low: [], high: [] });
+  });
+
+  it("finds no outliers when everyone agrees", () => {
+    const stats = analyzeVotes(entries("5", "5", "5"), fibonacci);
+    expect(stats.outliers).toEqual({ low: [], high: [] });
+    expect(stats.stdDev).toBe(0);
+    expect(stats.agreement).toBe(1);
+  });
+
+  it("names the voters at both extremes", () => {
+    const stats = analyzeVotes(entries("1", "3", "13", "1"), fibonacci);
+    expect(stats.outliers.low.map((o) => o.playerId)).toEqual(["p0", "p3"]);
+    expect(stats.outliers.high.map((o) => o.playerId)).toEqual(["p2"]);
+  });
+
+  it("rounds a tie for the nearest card up", () => {
+    expect(analyzeVotes(entries("2", "3"), fibonacci).nearestCard).toBe("3");
+    expect(analyzeVotes(entries("1", "2"), fibonacci).nearestCard).toBe("2");
+  });
+});
+
+describe("buildDistribution", () => {
+  it("orders numeric cards by value, then the rest in deck order", () => {
+    const distribution = buildDistribution(
+      ["☕", "8", "?", "1", "8", null, "XL"],
+      fibonacci
+    );
+    expect(distribution.map((d) => d.value)).toEqual([
+      "1",
+      "8",
+      "?",
+      "☕",
+      "XL",
+    ]);
+    expect(distribution.find((d) => d.value === "8")).toEqual({
+      value: "8",
+      count: 2,
+      isNumeric: true,
+    });
+    expect(distribution.find((d) => d.value === "?")?.isNumeric).toBe(false);
+  });
+});
+
+describe("calculateAverage", () => {
+  it("averages numeric votes to one decimal", () => {
+    expect(calculateAverage(["1", "2", "?", null], fibonacci)).toBe("1.5");
+  });
+
+  it("shows a dash when no vote is numeric", () => {
+    expect(calculateAverage(["?", "☕", null], fibonacci)).toBe("—");
+    expect(calculateAverage([], fibonacci)).toBe("—");
+  });
+});
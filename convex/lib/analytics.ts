@@ -0,0 +1,175 @@
+import { v } from "convex/values";
+import type { Card } from "./deck";
+
+export const distributionValidator = v.array(
+  v.object({
+    value: v.string(),
+    count: v.number(),
+    isNumeric: v.boolean(),
+  })
+);
+
+export type Distribution = { value: string; count: number; isNumeric: boolean }[];
+
+/** The numeric value a vote counts as in the given deck, if it has one. */
+export function cardValue(cards: Card[], vote: string): number | undefined {
+  return cards.find((card) => card.label === vote)?.value;
+}
+
+export function calculateAverage(
+  votes: (string | null)[],
+  cards: Card[]
+): string {
+  const numericVotes = votes
+    .map((vote) => (vote === null ? undefined : cardValue(cards, vote)))
+    .filter((value): value is number => value !== undefined);
+
+  if (numericVotes.length === 0) return "—";
+  const sum = numericVotes.reduce((a, b) => a + b, 0);
+  return (sum / numericVotes.length).toFixed(1);
+}
+
+export function buildDistribution(
+  votes: (string | null)[],
+  cards: Card[]
+): Distribution {
+  const counts = new Map<string, number>();
+  for (const vote of votes) {
+    if (vote !== null) {
+      counts.set(vote, (counts.get(vote) ?? 0) + 1);
+    }
+  }
+  // Cards keep their deck order; anything no longer in the deck goes last
+  const position = (label: string) => {
+    const index = cards.findIndex((card) => card.label === label);
+    return index === -1 ? cards.length : index;
+  };
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({
+      value,
+      count,
+      isNumeric: cardValue(cards, value) !== undefined,
+    }))
+    .sort((a, b) => {
+      if (a.isNumeric && b.isNumeric) {
+        return cardValue(cards, a.value)! - cardValue(cards, b.value)!;
+      }
+      if (a.isNumeric) return -1;
+      if (b.isNumeric) return 1;
+      return position(a.value) - position(b.value) || a.value.localeCompare(b.value);
+    });
+}
+
+export type VoteEntry = { playerId: string; nickname: string; vote: string };
+
+export type Outlier = { playerId: string; nickname: string; vote: string };
+
+export type VoteStats = {
+  /** Numeric statistics only count cards that carry a value. */
+  numericCount: number;
+  mean: number | null;
+  median: number | null;
+  /** Most picked card labels; several when tied. */
+  mode: string[];
+  min: number | null;
+  max: number | null;
+  stdDev: number | null;
+  /** Share of all votes that went to the most picked card, from 0 to 1. */
+  agreement: number;
+  /** The deck card whose value is closest to the mean. */
+  nearestCard: string | null;
+  /** Voters at the extremes, empty when everyone picked the same value. */
+  outliers: { low: Outlier[]; high: Outlier[] };
+};
+
+/** Rounds to one decimal and drops a trailing `.0`. */
+export function formatNumber(value: number): string {
+  return String(Number(value.toFixed(1)));
+}
+
+export function analyzeVotes(votes: VoteEntry[], cards: Card[]): VoteStats {
+  const numeric = votes.flatMap((entry) => {
+    const value = cardValue(cards, entry.vote);
+    return value === undefined ? [] : [{ ...entry, value }];
+  });
+  const values = numeric.map((entry) => entry.value).sort((a, b) => a - b);
+
+  const counts = new Map<string, number>();
+  for (const entry of votes) {
+    counts.set(entry.vote, (counts.get(entry.vote) ?? 0) + 1);
+  }
+  const topCount = Math.max(0, ...counts.values());
+  const mode = [...counts.entries()]
+    .filter(([, count]) => count === topCount)
+    .map(([label]) => label);
+
+  if (values.length === 0) {
+    return {
+      numericCount: 0,
+      mean: null,
+      median: null,
+      mode,
+      min: null,
+      max: null,
+      stdDev: null,
+      agreement: votes.length > 0 ? topCount / votes.length : 0,
+      nearestCard: null,
+      outliers: { low: [], high: [] },
+    };
+  }
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const middle = Math.floor(values.length / 2);
+  const median =
+    values.length % 2 === 0
+      ? (values[middle - 1] + values[middle]) / 2
+      : values[middle];
+  const min = values[0];
+  const max = values[values.length - 1];
+  const stdDev = Math.sqrt(
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  );
+
+  // Ties round up: estimating the bigger card is the safer call
+  let nearest: Card | null = null;
+  for (const card of cards) {
+    if (card.value === undefined) continue;
+    const distance = Math.abs(card.value - mean);
+    const best =
+      nearest?.value === undefined ? null : Math.abs(nearest.value - mean);
+    if (
+      best === null ||
+      distance < best ||
+      (distance === best && card.value > (nearest?.value ?? 0))
+    ) {
+      nearest = card;
+    }
+  }
+  const nearestCard = nearest?.label ?? null;
+
+  const toOutlier = ({ playerId, nickname, vote }: VoteEntry): Outlier => ({
+    playerId,
+    nickname,
+    vote,
+  });
+  const outliers =
+    min === max
+      ? { low: [], high: [] }
+      : {
+          low: numeric.filter((e) => e.value === min).map(toOutlier),
+          high: numeric.filter((e) => e.value === max).map(toOutlier),
+        };
+
+  return {
+    numericCount: values.length,
+    mean,
+    median,
+    mode,
+    min,
+    max,
+    stdDev,
+    agreement: topCount / votes.length,
+    nearestCard,
+    outliers,
+  };
+}
@@ -0,0 +1,125 @@
+import type { Id } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+import { pokerError } from "./errors";
+import { randomHex, randomString } from "./tokens";
+
+/** Longest reason a facilitator can give when removing a player. */
+export const MAX_KICK_REASON_LENGTH = 200;
+
+/**
+ * A fresh session token. Clients prove who they are with this secret rather
+ * than their player id, which every room member can see.
+ */
+export function newSessionToken() {
+  return randomHex(32);
+}
+
+export const RECLAIM_CODE_LENGTH = 6;
+
+// The join code alphabet: no 0/O or 1/I, and 32 characters keeps
+// `randomString` unbiased
+const RECLAIM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * A code shown only on the player's own device. Taking over a facilitator's
+ * seat from another device needs it, so a matching nickname is not enough.
+ */
+export function newReclaimCode() {
+  return randomString(RECLAIM_CODE_LENGTH, RECLAIM_CODE_ALPHABET);
+}
+
+/** Reads a typed reclaim code, forgiving case, spaces and dashes. */
+export function normalizeReclaimCode(input: string) {
+  return input.toUpperCase().replace(/[\s-]/g, "");
+}
+
+/** The player holding a session token, or null when it is unknown. */
+export async function findPlayer(ctx: QueryCtx, sessionToken: string) {
+  return await ctx.db
+    .query("players")
+    .withIndex("by_session", (q) => q.eq("sessionToken", sessionToken))
+    .unique();
+}
+
+/** Loads the calling player from their session token. */
+export async function requirePlayer(ctx: QueryCtx, sessionToken: string) {
+  const player = await findPlayer(ctx, sessionToken);
+  if (!player) {
+    throw pokerError("PLAYER_NOT_FOUND", "You are no longer in this room");
+  }
+  if (player.kickedReason !== undefined) {
+    throw pokerError("KICKED", player.kickedReason);
+  }
+  return player;
+}
+
+/** Like `requirePlayer`, and checks the caller belongs to `roomId`. */
+export async function requireMember(
+  ctx: QueryCtx,
+  sessionToken: string,
+  roomId: Id<"rooms">
+) {
+  const player = await requirePlayer(ctx, sessionToken);
+  if (player.roomId !== roomId) {
+    throw pokerError("FORBIDDEN", "You are not in this room");
+  }
+  return player;
+}
+
+/**
+ * The caller if they are still a member of `roomId`, else null. Room
+ * subscriptions use this to answer outsiders with nothing, since a throwing
+ * query would take the client's page down with it.
+ */
+export async function findMember(
+  ctx: QueryCtx,
+  sessionToken: string,
+  roomId: Id<"rooms">
+) {
+  const player = await findPlayer(ctx, sessionToken);
+  return player?.roomId === roomId && player.kickedReason === undefined
+    ? player
+    : null;
+}
+
+export function isFacilitator(player: {
+  isGM: boolean;
+  isCoFacilitator?: boolean;
+}) {
+  return player.isGM || player.isCoFacilitator === true;
+}
+
+/**
+ * Whether a facilitator may move another player to the observers or remove
+ * them. Nobody can do that to the GM, and co-facilitators cannot do it to
+ * each other.
+ */
+export function canModerate(
+  actor: { isGM: boolean; isCoFacilitator?: boolean },
+  target: { isGM: boolean; isCoFacilitator?: boolean }
+) {
+  if (!isFacilitator(actor) || target.isGM) return false;
+  return actor.isGM || target.isCoFacilitator !== true;
+}
+
+/**
+ * Loads the calling player and checks they may run the session, as GM or
+ * co-facilitator. Every facilitator mutation must go through this (or
+ * `requireGM`) before touching room state.
+ */
+export async function requireFacilitator(ctx: QueryCtx, sessionToken: string) {
+  const player = await requirePlayer(ctx, sessionToken);
+  if (!isFacilitator(player)) {
+    throw pokerError("NOT_FACILITATOR", "Only facilitators can do that");
+  }
+  return player;
+}
+
+/** Like `requireFacilitator`, for actions reserved to the room's one GM. */
+export async function requireGM(ctx: QueryCtx, sessionToken: string) {
+  const player = await requirePlayer(ctx, sessionToken);
+  if (!player.isGM) {
+    throw pokerError("NOT_GM", "Only the game master can do that");
+  }
+  return player;
+}
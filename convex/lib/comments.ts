@@ -0,0 +1,5 @@
+/** Longest note a player can attach to their vote. */
+export const MAX_RATIONALE_LENGTH = 280;
+
+/** Longest comment in a story's discussion thread. */
+export const MAX_COMMENT_LENGTH = 1000;
@@ -0,0 +1,139 @@
+import { v } from "convex/values";
+
+export const cardValidator = v.object({
+  label: v.string(),
+  value: v.optional(v.number()),
+});
+
+export const deckValidator = v.object({
+  preset: v.string(),
+  cards: v.optional(v.array(cardValidator)),
+});
+
+/** A card label, plus the number it counts as in averages (if any). */
+export type Card = { label: string; value?: number };
+
+/** A preset deck by id, or `"custom"` with the room's own list of cards. */
+export type Deck = { preset: string; cards?: Card[] };
+
+export type DeckPreset = { id: string; name: string; cards: Card[] };
+
+export const CUSTOM_DECK_ID = "custom";
+export const MAX_CUSTOM_CARDS = 20;
+export const MAX_CARD_LABEL_LENGTH = 4;
+
+const numeric = (...values: number[]): Card[] =>
+  values.map((value) => ({ label: String(value), value }));
+
+const BREAK_CARDS: Card[] = [{ label: "?" }, { label: "☕" }];
+
+export const DECK_PRESETS: DeckPreset[] = [
+  {
+    id: "fibonacci",
+    name: "Fibonacci",
+    cards: [...numeric(0, 1, 2, 3, 5, 8, 13, 21), ...BREAK_CARDS],
+  },
+  {
+    id: "modified-fibonacci",
+    name: "Modified Fibonacci",
+    cards: [
+      { label: "0", value: 0 },
+      { label: "½", value: 0.5 },
+      ...numeric(1, 2, 3, 5, 8, 13, 20, 40, 100),
+      { label: "∞" },
+      ...BREAK_CARDS,
+    ],
+  },
+  {
+    id: "t-shirt",
+    name: "T-shirt sizes",
+    cards: [
+      { label: "XS", value: 1 },
+      { label: "S", value: 2 },
+      { label: "M", value: 3 },
+      { label: "L", value: 5 },
+      { label: "XL", value: 8 },
+      { label: "XXL", value: 13 },
+      ...BREAK_CARDS,
+    ],
+  },
+  {
+    id: "powers-of-two",
+    name: "Powers of two",
+    cards: [...numeric(0, 1, 2, 4, 8, 16, 32, 64), ...BREAK_CARDS],
+  },
+];
+
+export const DEFAULT_DECK: Deck = { preset: "fibonacci" };
+
+/**
+ * The cards in play for a room. Rooms created before decks existed only have
+ * a `maxFib`, which limits the Fibonacci preset.
+ */
+export function resolveDeck(room: { deck?: Deck; maxFib?: number }): Card[] {
+  if (room.deck?.preset === CUSTOM_DECK_ID) return room.deck.cards ?? [];
+
+  const preset = DECK_PRESETS.find((p) => p.id === room.deck?.preset);
+  if (preset) return preset.cards;
+
+  const maxFib = room.maxFib ?? 21;
+  return DECK_PRESETS[0].cards.filter(
+    (card) => card.value === undefined || card.value <= maxFib
+  );
+}
+
+/** Returns why a deck cannot be used, or null when it is valid. */
+export function validateDeck(deck: Deck): string | null {
+  if (deck.preset !== CUSTOM_DECK_ID) {
+    return DECK_PRESETS.some((p) => p.id === deck.preset)
+      ? null
+      : "Unknown deck";
+  }
+
+  const cards = deck.cards ?? [];
+  if (cards.length < 2) return "A deck needs at least two cards";
+  if (cards.length > MAX_CUSTOM_CARDS) {
+    return `A deck can have at most ${MAX_CUSTOM_CARDS} cards`;
+  }
+  const labels = new Set<string>();
+  for (const card of cards) {
+    const label = card.label.trim();
+    if (!label) return "Cards cannot be blank";
+    if ([...label].length > MAX_CARD_LABEL_LENGTH) {
+      return `Card "${label}" is longer than ${MAX_CARD_LABEL_LENGTH} characters`;
+    }
+    if (labels.has(label)) return `Card "${label}" appears twice`;
+    if (card.value !== undefined && !Number.isFinite(card.value)) {
+      return `Card "${label}" has an invalid value`;
+    }
+    labels.add(label);
+  }
+  return null;
+}
+
+/**
+ * Parses a comma separated card list such as `1, 2, 3, XL=20, ?`. Numeric
+ * labels count as their own value; `label=value` assigns one explicitly.
+ */
+export function parseCustomDeck(text: string): Card[] {
+  return text
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [label, rawValue] = entry.split("=").map((part) => part.trim());
+      const value = Number(rawValue ?? label);
+      return rawValue === "" || Number.isNaN(value) ? { label } : { label, value };
+    });
+}
+
+/** Inverse of `parseCustomDeck`, for pre-filling the custom deck editor. */
+export function formatCustomDeck(cards: Card[]): string {
+  return cards
+    .map((card) =>
+      card.value === undefined || String(card.value) === card.label
+        ? card.label
+        : `${card.label}=${card.value}`
+    )
+    .join(", ");
+}
@@ -0,0 +1,47 @@
+import { ConvexError } from "convex/values";
+
+export type PokerErrorCode =
+  | "PLAYER_NOT_FOUND"
+  | "ROOM_NOT_FOUND"
+  | "STORY_NOT_FOUND"
+  | "NOT_GM"
+  | "INVALID_DECK"
+  | "INVALID_CARD"
+  | "INVALID_REACTION"
+  | "NOT_A_VOTER"
+  | "INVALID_TIMER"
+  | "VOTING_CLOSED"
+  | "INVALID_IMPORT"
+  | "INVALID_STORY"
+  | "PASSCODE_REQUIRED"
+  | "WRONG_PASSCODE"
+  | "INVALID_PASSCODE"
+  | "INVALID_SETTINGS"
+  | "INVALID_ROOM_NAME"
+  | "NICKNAME_RECLAIMABLE"
+  | "RECLAIM_CODE_REQUIRED"
+  | "WRONG_RECLAIM_CODE"
+  | "WRONG_PHASE"
+  | "NOT_FACILITATOR"
+  | "KICKED"
+  | "FORBIDDEN";
+
+export type PokerErrorData = { code: PokerErrorCode; message: string };
+
+/** Builds an error whose code and message reach the client intact. */
+export function pokerError(code: PokerErrorCode, message: string) {
+  return new ConvexError<PokerErrorData>({ code, message });
+}
+
+/** Extracts the typed payload from an error thrown by a poker mutation. */
+export function getPokerError(error: unknown): PokerErrorData | null {
+  if (
+    error instanceof ConvexError &&
+    typeof error.data === "object" &&
+    error.data !== null &&
+    "code" in error.data
+  ) {
+    return error.data as PokerErrorData;
+  }
+  return null;
+}
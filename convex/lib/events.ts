@@ -0,0 +1,15 @@
+import { v } from "convex/values";
+
+/** The reactions on offer; anything else is rejected. */
+export const REACTION_EMOJIS = ["👍", "🎉", "🤔", "😮", "🔥", "☕"] as const;
+
+export const eventKindValidator = v.union(
+  v.literal("reaction"),
+  v.literal("nudge")
+);
+
+export type RoomEventKind = "reaction" | "nudge";
+
+export function isReactionEmoji(emoji: string) {
+  return (REACTION_EMOJIS as readonly string[]).includes(emoji);
+}
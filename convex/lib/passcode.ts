@@ -0,0 +1,84 @@
+import { v } from "convex/values";
+import { randomHex, toHex } from "./tokens";
+
+/**
+ * A room passcode as stored: never the passcode itself, only a salted
+ * PBKDF2 hash. Passcodes set before key stretching have no `iterations` and
+ * hold a single salted SHA-256 instead.
+ */
+export const passcodeValidator = v.object({
+  salt: v.string(),
+  hash: v.string(),
+  iterations: v.optional(v.number()),
+});
+
+export type StoredPasscode = {
+  salt: string;
+  hash: string;
+  iterations?: number;
+};
+
+export const MIN_PASSCODE_LENGTH = 4;
+
+/**
+ * PBKDF2-SHA256 rounds for new passcodes. Stored next to each hash, so this
+ * can be raised without breaking existing rooms.
+ */
+export const PASSCODE_ITERATIONS = 100_000;
+
+async function derivePasscodeHash(
+  passcode: string,
+  salt: string,
+  iterations: number
+) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(passcode),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+async function legacyPasscodeHash(passcode: string, salt: string) {
+  const data = new TextEncoder().encode(`${salt}:${passcode}`);
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+}
+
+/** Compares two hashes without stopping at the first differing character. */
+function constantTimeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function createPasscode(passcode: string): Promise<StoredPasscode> {
+  const salt = randomHex(16);
+  const iterations = PASSCODE_ITERATIONS;
+  return {
+    salt,
+    hash: await derivePasscodeHash(passcode, salt, iterations),
+    iterations,
+  };
+}
+
+export async function verifyPasscode(
+  passcode: string,
+  stored: StoredPasscode
+): Promise<boolean> {
+  const hash =
+    stored.iterations === undefined
+      ? await legacyPasscodeHash(passcode, stored.salt)
+      : await derivePasscodeHash(passcode, stored.salt, stored.iterations);
+  return constantTimeEqual(hash, stored.hash);
+}
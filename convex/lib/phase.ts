@@ -0,0 +1,28 @@
+import { v } from "convex/values";
+
+export const phaseValidator = v.union(
+  v.literal("open"),
+  v.literal("revealed"),
+  v.literal("revote"),
+  v.literal("finalized")
+);
+
+/**
+ * Where the current round stands. Voting happens in "open" and "revote";
+ * revealing leads to "revealed", from which the facilitator either calls a
+ * re-vote of the same story or records the agreed estimate ("finalized").
+ * Resetting or picking another story returns to "open".
+ */
+export type RoundPhase = "open" | "revealed" | "revote" | "finalized";
+
+/** The room's phase; rooms from before phases only have `revealed`. */
+export function roomPhase(room: {
+  phase?: RoundPhase;
+  revealed: boolean;
+}): RoundPhase {
+  return room.phase ?? (room.revealed ? "revealed" : "open");
+}
+
+export function isVotingPhase(phase: RoundPhase) {
+  return phase === "open" || phase === "revote";
+}
@@ -0,0 +1,58 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+
+/** How often each connected client pings `heartbeat`. */
+export const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+
+/** A player counts as online while pings keep arriving (two may be missed). */
+export const ONLINE_WITHIN_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+/** After this long without a ping a player is shown as offline. */
+export const IDLE_WITHIN_MS = 2 * 60 * 1000;
+
+export type PresenceStatus = "online" | "idle" | "offline";
+
+export function presenceStatus(
+  lastPing: number | undefined,
+  now: number
+): PresenceStatus {
+  if (lastPing === undefined) return "offline";
+  const silence = now - lastPing;
+  if (silence < ONLINE_WITHIN_MS) return "online";
+  if (silence < IDLE_WITHIN_MS) return "idle";
+  return "offline";
+}
+
+/**
+ * Records a ping for a player. Presence lives in its own table so heartbeats
+ * never invalidate queries that read `players`.
+ */
+export async function touchPresence(
+  ctx: MutationCtx,
+  player: Pick<Doc<"players">, "_id" | "roomId">
+) {
+  const existing = await ctx.db
+    .query("presence")
+    .withIndex("by_player", (q) => q.eq("playerId", player._id))
+    .unique();
+  if (existing) {
+    await ctx.db.patch(existing._id, { lastPing: Date.now() });
+  } else {
+    await ctx.db.insert("presence", {
+      playerId: player._id,
+      roomId: player.roomId,
+      lastPing: Date.now(),
+    });
+  }
+}
+
+export async function clearPresence(
+  ctx: MutationCtx,
+  playerId: Id<"players">
+) {
+  const existing = await ctx.db
+    .query("presence")
+    .withIndex("by_player", (q) => q.eq("playerId", playerId))
+    .unique();
+  if (existing) await ctx.db.delete(existing._id);
+}
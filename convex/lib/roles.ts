@@ -0,0 +1,10 @@
+import { v } from "convex/values";
+
+export const roleValidator = v.union(v.literal("voter"), v.literal("observer"));
+
+export type PlayerRole = "voter" | "observer";
+
+/** Players without a role predate observers and always voted. */
+export function isVoter(player: { role?: PlayerRole }) {
+  return (player.role ?? "voter") === "voter";
+}
@@ -0,0 +1,70 @@
+import type { QueryCtx } from "../_generated/server";
+import { randomString } from "./tokens";
+
+/** Longest display name a room can have. */
+export const MAX_ROOM_NAME_LENGTH = 60;
+
+export const JOIN_CODE_LENGTH = 6;
+
+// No 0/O or 1/I, so codes survive being read aloud; 32 characters keeps
+// `randomString` unbiased
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** Tidies a display name: trimmed, with runs of whitespace collapsed. */
+export function cleanRoomName(name: string) {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * The canonical form of a room name used in URLs and lookups, so that
+ * "Sprint 42", "sprint-42 " and "SPRINT_42" all reach the same room.
+ */
+export function slugify(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function newJoinCode() {
+  return randomString(JOIN_CODE_LENGTH, JOIN_CODE_ALPHABET);
+}
+
+/** Reads a typed join code, forgiving case, spaces and dashes. */
+export function normalizeJoinCode(input: string) {
+  const code = input.toUpperCase().replace(/[\s-]/g, "");
+  return code.length === JOIN_CODE_LENGTH &&
+    [...code].every((c) => JOIN_CODE_ALPHABET.includes(c))
+    ? code
+    : null;
+}
+
+/**
+ * Finds a room by anything a person might type or link to: its slug, its
+ * join code or, for rooms from before slugs, its exact name. Uses `first`
+ * rather than `unique` so stray duplicates from older versions never make
+ * the lookup throw.
+ */
+export async function findRoom(ctx: QueryCtx, ref: string) {
+  const slug = slugify(ref);
+  const bySlug = await ctx.db
+    .query("rooms")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  if (bySlug) return bySlug;
+
+  const code = normalizeJoinCode(ref);
+  if (code) {
+    const byCode = await ctx.db
+      .query("rooms")
+      .withIndex("by_joinCode", (q) => q.eq("joinCode", code))
+      .first();
+    if (byCode) return byCode;
+  }
+
+  return await ctx.db
+    .query("rooms")
+    .withIndex("by_name", (q) => q.eq("name", ref))
+    .first();
+}
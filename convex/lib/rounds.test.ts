@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import { snapshotRound } from "./rounds";
+
+type Row = Record<string, unknown> & { _id: string };
+
+/** Just enough of the Convex database for `snapshotRound`. */
+function fakeCtx() {
+  const tables = new Map<string, Row[]>();
+  let nextId = 0;
+  const rows = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+  const find = (id: string) =>
+    [...tables.values()].flat().find((row) => row._id === id) ?? null;
+
+  const db = {
+    insert: async (table: string, fields: Record<string, unknown>) => {
+      const _id = `${table}:${nextId++}`;
+      rows(table).push({ ...fields, _id });
+      return _id;
+    },
+    get: async (id: string) => find(id),
+    patch: async (id: string, fields: Record<string, unknown>) => {
+      Object.assign(find(id)!, fields);
+    },
+    query: (table: string) => ({
+      withIndex: (
+        _index: string,
+        range: (q: { eq: (field: string, value: unknown) => unknown }) => void
+      ) => {
+        const filters: [string, unknown][] = [];
+        const q = {
+          eq: (field: string, value: unknown) => {
+            filters.push([field, value]);
+            return q;
+          },
+        };
+        range(q);
+        return {
+          collect: async () =>
+            rows(table).filter((row) =>
+              filters.every(([field, value]) => row[field] === value)
+            ),
+        };
+      },
+    }),
+  };
+  return { ctx: { db } as unknown as MutationCtx, db, rows };
+}
+
+async function revealedRoomWithoutRound() {
+  const fake = fakeCtx();
+  const roomId = await fake.db.insert("rooms", {
+    name: "team",
+    revealed: true,
+    phase: "revealed",
+  });
+  const playerId = await fake.db.insert("players", {
+    roomId,
+    nickname: "Ada",
+    vote: null,
+  });
+  const room = async () => (await fake.db.get(roomId)) as Doc<"rooms">;
+  return { ...fake, roomId, playerId, room };
+}
+
+describe("snapshotRound", () => {
+  it("skips rooms where nobody has voted", async () => {
+    const { ctx, rows, room } = await revealedRoomWithoutRound();
+    expect(await snapshotRound(ctx, await room())).toBeUndefined();
+    expect(rows("rounds")).toHaveLength(0);
+  });
+
+  it("keeps one round for votes cast after an empty reveal", async () => {
+    const { ctx, db, rows, playerId, room } = await revealedRoomWithoutRound();
+
+    await db.patch(playerId, { vote: "3" });
+    const roundId = await snapshotRound(ctx, await room());
+    expect((await room()).roundId).toBe(roundId);
+
+    await db.patch(playerId, { vote: "5" });
+    expect(await snapshotRound(ctx, await room())).toBe(roundId);
+
+    expect(rows("rounds")).toHaveLength(1);
+    expect(rows("rounds")[0]).toMatchObject({ attempt: 1, average: "5.0" });
+  });
+});
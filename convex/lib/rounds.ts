@@ -0,0 +1,83 @@
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import { buildDistribution, calculateAverage } from "./analytics";
+import { resolveDeck } from "./deck";
+import { isVoter } from "./roles";
+
+/**
+ * Records the outcome of the current round so it survives the next reset.
+ * Re-running it while results are showing updates the same round, so votes
+ * changed after reveal are reflected in history. Returns the round's id, or
+ * undefined when nobody has voted.
+ */
+export async function snapshotRound(ctx: MutationCtx, room: Doc<"rooms">) {
+  const players = await ctx.db
+    .query("players")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+  const votes = players.flatMap((p) =>
+    p.vote === null || !isVoter(p)
+      ? []
+      : [
+          {
+            playerId: p._id,
+            nickname: p.nickname,
+            vote: p.vote,
+            votedAt: p.votedAt,
+            rationale: p.rationale,
+          },
+        ]
+  );
+  if (votes.length === 0) return;
+
+  const story = room.currentStoryId
+    ? await ctx.db.get(room.currentStoryId)
+    : null;
+  if (story && story.status === "active") {
+    await ctx.db.patch(story._id, { status: "estimated" });
+  }
+
+  const values = votes.map((entry) => entry.vote);
+  const cards = resolveDeck(room);
+  const outcome = {
+    votes,
+    deck: cards,
+    average: calculateAverage(values, cards),
+    distribution: buildDistribution(values, cards),
+  };
+  if (room.roundId && (await ctx.db.get(room.roundId))) {
+    await ctx.db.patch(room.roundId, outcome);
+    return room.roundId;
+  }
+  const earlierAttempts = story
+    ? await ctx.db
+        .query("rounds")
+        .withIndex("by_story", (q) => q.eq("storyId", story._id))
+        .collect()
+    : [];
+  const roundId = await ctx.db.insert("rounds", {
+    roomId: room._id,
+    storyId: story?._id,
+    storyTitle: story?.title,
+    ...outcome,
+    revealedAt: Date.now(),
+    attempt: earlierAttempts.length + 1,
+  });
+  // A reveal with no votes left no round behind. Point the room at this one,
+  // or each later change after reveal would start yet another attempt.
+  if (room.revealed) await ctx.db.patch(room._id, { roundId });
+
+  // The discussion so far belongs with the votes it was about
+  const pendingComments = await ctx.db
+    .query("comments")
+    .withIndex("by_room_round", (q) =>
+      q.eq("roomId", room._id).eq("roundId", undefined)
+    )
+    .collect();
+  for (const comment of pendingComments) {
+    if (comment.storyId === story?._id) {
+      await ctx.db.patch(comment._id, { roundId });
+    }
+  }
+  return roundId;
+}
@@ -0,0 +1,104 @@
+import { v } from "convex/values";
+import { DEFAULT_DECK, type Deck, deckValidator } from "./deck";
+
+/** Bump when the shape of `RoomSettings` changes; see `resolveSettings`. */
+export const SETTINGS_VERSION = 2;
+
+export const revealPolicyValidator = v.union(
+  v.literal("facilitator"),
+  v.literal("anyone")
+);
+
+export const successionPolicyValidator = v.union(
+  v.literal("backup"),
+  v.literal("longestConnected"),
+  v.literal("wait")
+);
+
+/** How long the "wait" succession policy may hold the GM role open. */
+export const GM_WAIT_PRESETS_MINUTES = [5, 10, 15, 30];
+
+/**
+ * Stored settings. Fields added after version 1 are optional so rooms saved
+ * at an older version still validate; `resolveSettings` fills them in.
+ */
+export const settingsValidator = v.object({
+  version: v.number(),
+  autoReveal: v.boolean(),
+  allowVoteChangeAfterReveal: v.boolean(),
+  anonymousResults: v.boolean(),
+  revealPolicy: revealPolicyValidator,
+  defaultDeck: deckValidator,
+  succession: v.optional(successionPolicyValidator),
+  gmWaitMinutes: v.optional(v.number()),
+});
+
+/** The fields `updateSettings` accepts; omitted fields keep their value. */
+export const settingsPatchValidator = v.object({
+  autoReveal: v.optional(v.boolean()),
+  allowVoteChangeAfterReveal: v.optional(v.boolean()),
+  anonymousResults: v.optional(v.boolean()),
+  revealPolicy: v.optional(revealPolicyValidator),
+  defaultDeck: v.optional(deckValidator),
+  succession: v.optional(successionPolicyValidator),
+  gmWaitMinutes: v.optional(v.number()),
+});
+
+export type RevealPolicy = "facilitator" | "anyone";
+
+/**
+ * Who takes over when the GM goes away: the designated backup GM, the voter
+ * who has been in the room longest, or nobody until the GM has been gone for
+ * `gmWaitMinutes`. The first and last fall back to the longest-connected
+ * voter.
+ */
+export type SuccessionPolicy = "backup" | "longestConnected" | "wait";
+
+export type RoomSettings = {
+  version: number;
+  /** Reveal as soon as every voter has picked a card. */
+  autoReveal: boolean;
+  /** Let voters change their card while results are showing. */
+  allowVoteChangeAfterReveal: boolean;
+  /** Show revealed cards without saying who played them. */
+  anonymousResults: boolean;
+  /** Who may reveal the cards. */
+  revealPolicy: RevealPolicy;
+  /** The deck each newly selected story starts with. */
+  defaultDeck: Deck;
+  /** Who becomes GM when the GM leaves or times out. */
+  succession: SuccessionPolicy;
+  /** Minutes a silent GM keeps the role under the "wait" policy. */
+  gmWaitMinutes: number;
+};
+
+type StoredSettings = Omit<RoomSettings, "succession" | "gmWaitMinutes"> &
+  Partial<Pick<RoomSettings, "succession" | "gmWaitMinutes">>;
+
+export type SettingsPatch = Partial<Omit<RoomSettings, "version">>;
+
+export const DEFAULT_SETTINGS: RoomSettings = {
+  version: SETTINGS_VERSION,
+  autoReveal: false,
+  allowVoteChangeAfterReveal: false,
+  anonymousResults: false,
+  revealPolicy: "facilitator",
+  defaultDeck: DEFAULT_DECK,
+  succession: "longestConnected",
+  gmWaitMinutes: GM_WAIT_PRESETS_MINUTES[0],
+};
+
+/**
+ * A room's settings at the current version. Rooms from before settings
+ * existed default to their current deck; older versions gain any new fields
+ * at their default.
+ */
+export function resolveSettings(room: {
+  settings?: StoredSettings;
+  deck?: Deck;
+}): RoomSettings {
+  if (!room.settings) {
+    return { ...DEFAULT_SETTINGS, defaultDeck: room.deck ?? DEFAULT_DECK };
+  }
+  return { ...DEFAULT_SETTINGS, ...room.settings, version: SETTINGS_VERSION };
+}
@@ -0,0 +1,33 @@
+import { v } from "convex/values";
+
+export const storyInputValidator = v.object({
+  title: v.string(),
+  description: v.optional(v.string()),
+  link: v.optional(v.string()),
+});
+
+export type StoryInput = {
+  title: string;
+  description?: string;
+  link?: string;
+};
+
+/**
+ * Stories accepted by one `importStories` call. Larger backlogs are sent in
+ * several batches so each mutation stays well inside Convex's write limits.
+ */
+export const MAX_IMPORT_BATCH = 100;
+
+/**
+ * The first pending story after `afterOrder`, wrapping round to the top of
+ * the backlog. Expects stories sorted by order, as `by_room_order` has them.
+ */
+export function nextPendingStory<T extends { status?: string; order: number }>(
+  stories: T[],
+  afterOrder = -Infinity
+): T | undefined {
+  return (
+    stories.find((s) => s.status === "pending" && s.order > afterOrder) ??
+    stories.find((s) => s.status === "pending")
+  );
+}
@@ -0,0 +1,74 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import { presenceStatus } from "./presence";
+import { isVoter } from "./roles";
+import { type RoomSettings, resolveSettings } from "./settings";
+import { PLAYER_TIMEOUT_MS } from "./timeouts";
+
+/**
+ * How long a silent GM keeps their seat before the sweep removes them and
+ * hands the role on. Other players always get the standard timeout.
+ */
+export function gmTimeoutMs(settings: RoomSettings) {
+  return settings.succession === "wait"
+    ? Math.max(settings.gmWaitMinutes * 60 * 1000, PLAYER_TIMEOUT_MS)
+    : PLAYER_TIMEOUT_MS;
+}
+
+/**
+ * The voter who has been in the room longest among those still connected.
+ * Observers only qualify when no voter is left, and a room where everybody
+ * has gone quiet falls back to whoever joined first.
+ */
+async function longestConnected(
+  ctx: MutationCtx,
+  roomId: Id<"rooms">,
+  players: Doc<"players">[]
+) {
+  const presence = await ctx.db
+    .query("presence")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  const lastPings = new Map(presence.map((p) => [p.playerId, p.lastPing]));
+  const now = Date.now();
+
+  const connected = players.filter(
+    (p) => presenceStatus(lastPings.get(p._id), now) !== "offline"
+  );
+  const pool = connected.length > 0 ? connected : players;
+  const voters = pool.filter(isVoter);
+  return (voters.length > 0 ? voters : pool).reduce((oldest, p) =>
+    p._creationTime < oldest._creationTime ? p : oldest
+  );
+}
+
+/**
+ * Makes somebody GM after the GM has left the room, following the room's
+ * succession policy. Does nothing if the room already has a GM or nobody is
+ * left to take over. Both `leaveRoom` and the cleanup sweep go through here.
+ */
+export async function promoteSuccessor(ctx: MutationCtx, roomId: Id<"rooms">) {
+  const room = await ctx.db.get(roomId);
+  if (!room) return null;
+
+  const players = (
+    await ctx.db
+      .query("players")
+      .withIndex("by_room", (q) => q.eq("roomId", roomId))
+      .collect()
+  ).filter((p) => !p.kickedReason);
+  if (players.length === 0 || players.some((p) => p.isGM)) return null;
+
+  const settings = resolveSettings(room);
+  const backup =
+    settings.succession === "backup"
+      ? players.find((p) => p._id === room.backupGMId)
+      : undefined;
+  const successor = backup ?? (await longestConnected(ctx, roomId, players));
+
+  await ctx.db.patch(successor._id, { isGM: true, isCoFacilitator: undefined });
+  if (room.backupGMId === successor._id) {
+    await ctx.db.patch(roomId, { backupGMId: undefined });
+  }
+  return successor;
+}
@@ -0,0 +1,17 @@
+/** Players without a heartbeat for this long are removed from their room. */
+export const PLAYER_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * How long a player who closed their tab keeps their seat, long enough for
+ * a page refresh to rejoin.
+ */
+export const LEAVE_GRACE_MS = 20 * 1000;
+
+/** Reactions and nudges are deleted this long after they were sent. */
+export const EVENT_TTL_MS = 8 * 1000;
+
+/** Rooms without any interaction for this long are deleted with their data. */
+export const ROOM_TIMEOUT_MS = 60 * 60 * 1000;
+
+/** How often the cleanup cron sweeps every room. */
+export const CLEANUP_INTERVAL_MINUTES = 1;
@@ -0,0 +1,44 @@
+import { v } from "convex/values";
+
+/**
+ * A running timer has `endsAt`; a paused one keeps `remainingMs` instead.
+ * `durationMs` is the total length including extensions, for progress bars.
+ */
+export const timerValidator = v.object({
+  durationMs: v.number(),
+  endsAt: v.optional(v.number()),
+  remainingMs: v.optional(v.number()),
+  autoReveal: v.boolean(),
+});
+
+export type RoundTimer = {
+  durationMs: number;
+  endsAt?: number;
+  remainingMs?: number;
+  autoReveal: boolean;
+};
+
+export const MIN_TIMER_MS = 10 * 1000;
+export const MAX_TIMER_MS = 60 * 60 * 1000;
+
+/** Durations offered when starting a timer. */
+export const TIMER_PRESETS_MS = [30, 60, 120, 180, 300].map((s) => s * 1000);
+
+/** How much "extend" adds to a running or paused timer. */
+export const TIMER_EXTENSION_MS = 30 * 1000;
+
+/**
+ * `now` must be on the server's clock; clients add their measured offset
+ * (server time minus local time) to `Date.now()` before calling this.
+ */
+export function timerRemaining(timer: RoundTimer, now: number): number {
+  if (timer.endsAt === undefined) return timer.remainingMs ?? 0;
+  return Math.max(0, timer.endsAt - now);
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
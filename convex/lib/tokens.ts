@@ -0,0 +1,19 @@
+export function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** A random hex string carrying `byteLength` bytes of entropy. */
+export function randomHex(byteLength: number) {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * A random string of `length` characters drawn from `alphabet`. The alphabet
+ * length should divide 256 so every character is equally likely.
+ */
+export function randomString(length: number, alphabet: string) {
+  return Array.from(
+    crypto.getRandomValues(new Uint8Array(length)),
+    (b) => alphabet[b % alphabet.length]
+  ).join("");
+}
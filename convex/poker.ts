@@ -1,22 +1,477 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { analyzeVotes } from "./lib/analytics";
+import {
+  MAX_KICK_REASON_LENGTH,
+  canModerate,
+  findMember,
+  findPlayer,
+  isFacilitator,
+  newReclaimCode,
+  newSessionToken,
+  normalizeReclaimCode,
+  requireFacilitator,
+  requireGM,
+  requireMember,
+  requirePlayer,
+} from "./lib/auth";
+import {
+  type Deck,
+  DEFAULT_DECK,
+  deckValidator,
+  resolveDeck,
+  validateDeck,
+} from "./lib/deck";
+import { MAX_COMMENT_LENGTH, MAX_RATIONALE_LENGTH } from "./lib/comments";
+import { pokerError } from "./lib/errors";
+import { isReactionEmoji } from "./lib/events";
+import { isVotingPhase, roomPhase } from "./lib/phase";
+import {
+  MIN_PASSCODE_LENGTH,
+  createPasscode,
+  verifyPasscode,
+} from "./lib/passcode";
+import {
+  clearPresence,
+  presenceStatus,
+  touchPresence,
+} from "./lib/presence";
+import { isVoter, roleValidator } from "./lib/roles";
+import { snapshotRound } from "./lib/rounds";
+import {
+  MAX_ROOM_NAME_LENGTH,
+  cleanRoomName,
+  findRoom,
+  newJoinCode,
+  slugify,
+} from "./lib/rooms";
+import { promoteSuccessor } from "./lib/succession";
+import {
+  MAX_IMPORT_BATCH,
+  nextPendingStory,
+  storyInputValidator,
+} from "./lib/stories";
+import {
+  DEFAULT_SETTINGS,
+  GM_WAIT_PRESETS_MINUTES,
+  resolveSettings,
+  settingsPatchValidator,
+} from "./lib/settings";
+import { MAX_TIMER_MS, MIN_TIMER_MS, TIMER_EXTENSION_MS } from "./lib/timer";
+import { EVENT_TTL_MS, LEAVE_GRACE_MS } from "./lib/timeouts";
 
+/**
+ * Starts a fresh round: hides and clears every vote and drops the timer. A
+ * re-vote does the same but keeps the story's earlier attempts for
+ * comparison.
+ */
+async function clearVotes(
+  ctx: MutationCtx,
+  roomId: Id<"rooms">,
+  phase: "open" | "revote" = "open"
+) {
+  await ctx.db.patch(roomId, {
+    revealed: false,
+    phase,
+    timer: undefined,
+    roundId: undefined,
+    lastInteraction: Date.now(),
+  });
+  const players = await ctx.db
+    .query("players")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  for (const player of players) {
+    await ctx.db.patch(player._id, {
+      vote: null,
+      votedAt: undefined,
+      rationale: undefined,
+    });
+  }
+}
+
+/** Ends the current round, whether the GM or the timer triggered it. */
+async function revealRound(ctx: MutationCtx, room: Doc<"rooms">) {
+  const roundId = await snapshotRound(ctx, room);
+  await ctx.db.patch(room._id, {
+    revealed: true,
+    phase: "revealed",
+    roundId,
+    timer: undefined,
+    lastInteraction: Date.now(),
+  });
+}
+
+/**
+ * Arms expiry for a running timer. Pausing, extending or stopping the timer
+ * does not cancel this; `expireTimer` ignores schedules whose `endsAt` is no
+ * longer current.
+ */
+async function scheduleExpiry(
+  ctx: MutationCtx,
+  roomId: Id<"rooms">,
+  endsAt: number
+) {
+  await ctx.scheduler.runAt(endsAt, internal.poker.expireTimer, {
+    roomId,
+    endsAt,
+  });
+}
+
+/** Trims card labels and rejects decks that cannot be played. */
+function normalizeDeck(deck: Deck): Deck {
+  const normalized =
+    deck.cards === undefined
+      ? { preset: deck.preset }
+      : {
+          preset: deck.preset,
+          cards: deck.cards.map((card) => ({
+            ...card,
+            label: card.label.trim(),
+          })),
+        };
+  const problem = validateDeck(normalized);
+  if (problem) throw pokerError("INVALID_DECK", problem);
+  return normalized;
+}
+
+function sameDeck(a?: Deck, b?: Deck) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+async function allVotersVoted(ctx: QueryCtx, room: Doc<"rooms">) {
+  const voters = (
+    await ctx.db
+      .query("players")
+      .withIndex("by_room", (q) => q.eq("roomId", room._id))
+      .collect()
+  ).filter(isVoter);
+  // Players who closed their tab are not waited for
+  const waitingOn = voters.filter(
+    (p) => p.leftAt === undefined || p.vote !== null
+  );
+  return waitingOn.length > 0 && waitingOn.every((p) => p.vote !== null);
+}
+
+/** Takes a player out of their room for good, handing on the GM role. */
+async function removePlayer(ctx: MutationCtx, player: Doc<"players">) {
+  await ctx.db.delete(player._id);
+  await clearPresence(ctx, player._id);
+  if (player.isGM) await promoteSuccessor(ctx, player.roomId);
+}
+
+async function getFacilitatorRoom(ctx: MutationCtx, sessionToken: string) {
+  const facilitator = await requireFacilitator(ctx, sessionToken);
+  const room = await ctx.db.get(facilitator.roomId);
+  if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+  return room;
+}
+
+/** Loads another player, making sure they are still in the caller's room. */
+async function getRoomPlayer(
+  ctx: QueryCtx,
+  playerId: Id<"players">,
+  roomId: Id<"rooms">
+) {
+  const player = await ctx.db.get(playerId);
+  if (!player || player.roomId !== roomId || player.kickedReason !== undefined) {
+    throw pokerError("PLAYER_NOT_FOUND", "That player has left the room");
+  }
+  return player;
+}
+
+/** Loads a story, making sure it belongs to the caller's room. */
+async function getRoomStory(
+  ctx: QueryCtx,
+  storyId: Id<"stories">,
+  roomId: Id<"rooms">
+) {
+  const story = await ctx.db.get(storyId);
+  if (!story || story.roomId !== roomId) {
+    throw pokerError("STORY_NOT_FOUND", "Story not found");
+  }
+  return story;
+}
+
+/** Strips who voted what, in an order that says nothing about seating. */
+function anonymizeVotes(votes: Doc<"rounds">["votes"]) {
+  return votes
+    .map(({ vote, rationale }) => ({ vote, rationale }))
+    .sort((a, b) => (a.vote < b.vote ? -1 : a.vote > b.vote ? 1 : 0))
+    .map((entry, index) => ({
+      playerId: String(index),
+      nickname: "",
+      ...entry,
+    }));
+}
+
+async function getStories(ctx: QueryCtx, roomId: Id<"rooms">) {
+  return await ctx.db
+    .query("stories")
+    .withIndex("by_room_order", (q) => q.eq("roomId", roomId))
+    .collect();
+}
+
+/** A join code no other room is using. */
+async function uniqueJoinCode(ctx: QueryCtx) {
+  for (;;) {
+    const code = newJoinCode();
+    const taken = await ctx.db
+      .query("rooms")
+      .withIndex("by_joinCode", (q) => q.eq("joinCode", code))
+      .first();
+    if (!taken) return code;
+  }
+}
+
+/**
+ * Gives a room from before slugs its slug and join code. Old names that only
+ * differed in case share a slug, so later ones fall back to their join code.
+ */
+async function ensureRoomIdentity(ctx: MutationCtx, room: Doc<"rooms">) {
+  if (room.slug && room.joinCode) return room;
+
+  const joinCode = room.joinCode ?? (await uniqueJoinCode(ctx));
+  const slug = slugify(room.name);
+  const clash = slug
+    ? await ctx.db
+        .query("rooms")
+        .withIndex("by_slug", (q) => q.eq("slug", slug))
+        .first()
+    : null;
+  await ctx.db.patch(room._id, {
+    slug: room.slug ?? (slug && !clash ? slug : joinCode.toLowerCase()),
+    joinCode,
+  });
+  return (await ctx.db.get(room._id))!;
+}
+
+async function checkPasscode(room: Doc<"rooms">, passcode?: string) {
+  if (!room.passcode) return;
+  if (!passcode) {
+    throw pokerError("PASSCODE_REQUIRED", "This room needs a passcode");
+  }
+  if (!(await verifyPasscode(passcode.trim(), room.passcode))) {
+    throw pokerError("WRONG_PASSCODE", "Wrong passcode");
+  }
+}
+
+/**
+ * The player going by this nickname, if their device has gone quiet and
+ * someone joining under the same name may take them over.
+ */
+async function findReclaimable(
+  ctx: QueryCtx,
+  roomId: Id<"rooms">,
+  nickname: string
+) {
+  const name = nickname.trim().toLowerCase();
+  const player = (
+    await ctx.db
+      .query("players")
+      .withIndex("by_room", (q) => q.eq("roomId", roomId))
+      .collect()
+  ).find(
+    (p) => p.kickedReason === undefined && p.nickname.toLowerCase() === name
+  );
+  if (!player) return null;
+
+  // Closed their tab, or silent long enough to be offline. An idle player
+  // may just have a throttled background tab and keeps their seat.
+  if (player.leftAt !== undefined) return player;
+  const presence = await ctx.db
+    .query("presence")
+    .withIndex("by_player", (q) => q.eq("playerId", player._id))
+    .unique();
+  const status = presenceStatus(presence?.lastPing, Date.now());
+  return status === "offline" ? player : null;
+}
+
+/** Looks a room up by its slug, join code or (for old rooms) exact name. */
 export const getRoom = query({
-  args: { name: v.string() },
+  args: { name: v.string(), sessionToken: v.optional(v.string()) },
   handler: async (ctx, args) => {
-    const room = await ctx.db
-      .query("rooms")
-      .withIndex("by_name", (q) => q.eq("name", args.name))
-      .unique();
+    const room = await findRoom(ctx, args.name);
 
     if (!room) return null;
 
-    const players = await ctx.db
-      .query("players")
+    const players = (
+      await ctx.db
+        .query("players")
+        .withIndex("by_room", (q) => q.eq("roomId", room._id))
+        .collect()
+    ).filter((p) => p.kickedReason === undefined);
+
+    const self = args.sessionToken
+      ? await findPlayer(ctx, args.sessionToken)
+      : null;
+    // Removed players only learn why, so their client can leave
+    if (self?.roomId === room._id && self.kickedReason !== undefined) {
+      return {
+        name: room.name,
+        slug: room.slug,
+        locked: true as const,
+        kickedReason: self.kickedReason,
+      };
+    }
+    // Someone continued as us on another device
+    if (args.sessionToken && !self) {
+      const replaced = await ctx.db
+        .query("players")
+        .withIndex("by_replaced_session", (q) =>
+          q.eq("replacedSessionToken", args.sessionToken)
+        )
+        .first();
+      if (replaced?.roomId === room._id) {
+        return {
+          name: room.name,
+          slug: room.slug,
+          locked: true as const,
+          kickedReason: null,
+          sessionReplaced: true,
+        };
+      }
+    }
+    const selfId = self?.roomId === room._id ? self._id : null;
+
+    // Locked rooms reveal nothing beyond their existence until joined
+    const { passcode, ...roomFields } = room;
+    if (passcode && !selfId) {
+      return {
+        name: room.name,
+        slug: room.slug,
+        locked: true as const,
+        kickedReason: null,
+      };
+    }
+
+    const stories = await getStories(ctx, room._id);
+    const settings = resolveSettings(room);
+
+    // Cards stay face down until reveal: others only learn *whether* someone
+    // voted, while the caller still sees their own pick. Anonymous rooms
+    // reveal the cards as a bare list instead.
+    const anonymous = room.revealed && settings.anonymousResults;
+    const showVotes = room.revealed && !anonymous;
+    const visiblePlayers = players.map(
+      ({
+        vote,
+        votedAt,
+        rationale,
+        sessionToken,
+        reclaimCode,
+        replacedSessionToken,
+        ...player
+      }) => {
+        const visible = showVotes || player._id === selfId;
+        return {
+          ...player,
+          hasVoted: vote !== null,
+          vote: visible ? vote : null,
+          rationale: visible ? rationale : undefined,
+        };
+      }
+    );
+    const anonymousVotes = anonymous
+      ? players
+          .flatMap((p) => (p.vote === null || !isVoter(p) ? [] : [p.vote]))
+          .sort()
+      : null;
+    const anonymousRationales = anonymous
+      ? players
+          .flatMap((p) =>
+            p.vote === null || !isVoter(p) || !p.rationale ? [] : [p.rationale]
+          )
+          .sort()
+      : null;
+
+    return {
+      ...roomFields,
+      locked: false as const,
+      kickedReason: null,
+      phase: roomPhase(room),
+      hasPasscode: passcode !== undefined,
+      settings,
+      players: visiblePlayers,
+      anonymousVotes,
+      anonymousRationales,
+      stories,
+      // Only facilitators' seats are guarded by a code
+      reclaimCode:
+        self && selfId && isFacilitator(self) ? self.reclaimCode : undefined,
+    };
+  },
+});
+
+export const getRounds = query({
+  args: { roomId: v.id("rooms"), sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    if (!(await findMember(ctx, args.sessionToken, args.roomId))) return [];
+    const room = await ctx.db.get(args.roomId);
+    const rounds = await ctx.db
+      .query("rounds")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .order("desc")
+      .take(50);
+    if (!room || !resolveSettings(room).anonymousResults) return rounds;
+
+    return rounds.map((round) => ({
+      ...round,
+      votes: anonymizeVotes(round.votes),
+    }));
+  },
+});
+
+/** Every round of the session, oldest first, for download from the room. */
+export const exportSession = query({
+  args: { roomId: v.id("rooms"), sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    await requireMember(ctx, args.sessionToken, args.roomId);
+    const room = await ctx.db.get(args.roomId);
+    if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+    const anonymous = resolveSettings(room).anonymousResults;
+
+    const rounds = await ctx.db
+      .query("rounds")
       .withIndex("by_room", (q) => q.eq("roomId", room._id))
       .collect();
+    const comments = await ctx.db
+      .query("comments")
+      .withIndex("by_room_round", (q) => q.eq("roomId", room._id))
+      .collect();
 
-    return { ...room, players };
+    return {
+      roomName: room.name,
+      anonymous,
+      exportedAt: Date.now(),
+      rounds: rounds.map((round) => ({
+        storyTitle: round.storyTitle ?? null,
+        revealedAt: round.revealedAt,
+        average: round.average,
+        attempt: round.attempt ?? 1,
+        // Only what the room agreed on; the suggestion is kept apart
+        finalEstimate: round.finalEstimate ?? null,
+        suggested: analyzeVotes(round.votes, round.deck).nearestCard,
+        votes: (anonymous ? anonymizeVotes(round.votes) : round.votes).map(
+          (entry) => ({
+            nickname: entry.nickname,
+            vote: entry.vote,
+            votedAt: "votedAt" in entry ? (entry.votedAt ?? null) : null,
+            rationale: entry.rationale ?? null,
+          })
+        ),
+        comments: comments
+          .filter((comment) => comment.roundId === round._id)
+          .map((comment) => ({
+            nickname: comment.nickname,
+            body: comment.body,
+            createdAt: comment._creationTime,
+          })),
+      })),
+    };
   },
 });
 
@@ -24,34 +479,71 @@ export const joinRoom = mutation({
   args: {
     roomName: v.string(),
     nickname: v.string(),
-    playerId: v.optional(v.id("players")),
+    sessionToken: v.optional(v.string()),
+    role: v.optional(roleValidator),
+    passcode: v.optional(v.string()),
+    // Join alongside an inactive player of the same name instead of
+    // reclaiming them
+    asNewPlayer: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
-    let room = await ctx.db
-      .query("rooms")
-      .withIndex("by_name", (q) => q.eq("name", args.roomName))
-      .unique();
+    // Two first joins racing here both read the empty slug range, so
+    // Convex's optimistic concurrency retries one and it finds the room
+    let room = await findRoom(ctx, args.roomName);
 
     if (!room) {
+      const name = cleanRoomName(args.roomName);
+      const slug = slugify(name);
+      if (!slug || name.length > MAX_ROOM_NAME_LENGTH) {
+        throw pokerError(
+          "INVALID_ROOM_NAME",
+          `Room names need a letter or digit and at most ${MAX_ROOM_NAME_LENGTH} characters`
+        );
+      }
       const roomId = await ctx.db.insert("rooms", {
-        name: args.roomName,
+        name,
+        slug,
+        joinCode: await uniqueJoinCode(ctx),
         revealed: false,
-        maxFib: 8,
+        deck: DEFAULT_DECK,
+        settings: DEFAULT_SETTINGS,
         lastInteraction: Date.now(),
       });
       room = (await ctx.db.get(roomId))!;
     } else {
+      room = await ensureRoomIdentity(ctx, room);
       await ctx.db.patch(room._id, { lastInteraction: Date.now() });
     }
+    const slug = room.slug!;
 
-    if (args.playerId) {
-      const existingPlayer = await ctx.db.get(args.playerId);
+    // A known session token rejoins as the same player after a refresh
+    if (args.sessionToken) {
+      const existingPlayer = await findPlayer(ctx, args.sessionToken);
       if (existingPlayer && existingPlayer.roomId === room._id) {
-        // Just update last seen
-        await ctx.db.patch(existingPlayer._id, {
-          lastSeen: Date.now(),
-        });
-        return { roomId: room._id, playerId: existingPlayer._id };
+        if (existingPlayer.kickedReason !== undefined) {
+          throw pokerError("KICKED", existingPlayer.kickedReason);
+        }
+        await ctx.db.patch(existingPlayer._id, { leftAt: undefined });
+        await touchPresence(ctx, existingPlayer);
+        return {
+          roomId: room._id,
+          slug,
+          playerId: existingPlayer._id,
+          sessionToken: args.sessionToken,
+        };
+      }
+    }
+
+    await checkPasscode(room, args.passcode);
+
+    // Rather than becoming "Alex 2", offer to take over a quiet "Alex"
+    if (!args.asNewPlayer) {
+      const stale = await findReclaimable(ctx, room._id, args.nickname);
+      if (stale) {
+        throw pokerError(
+          "NICKNAME_RECLAIMABLE",
+          `${stale.nickname} is in this room but has not been seen lately`
+        );
       }
     }
 
@@ -73,77 +565,695 @@ export const joinRoom = mutation({
 
     const isGM = existingPlayers.length === 0;
 
+    const sessionToken = newSessionToken();
     const playerId = await ctx.db.insert("players", {
       roomId: room._id,
       nickname: finalNickname,
       vote: null,
       isGM,
-      lastSeen: Date.now(),
+      role: args.role ?? "voter",
+      sessionToken,
+      reclaimCode: newReclaimCode(),
     });
+    await touchPresence(ctx, { _id: playerId, roomId: room._id });
 
-    return { roomId: room._id, playerId };
+    return { roomId: room._id, slug, playerId, sessionToken };
   },
 });
 
-export const setMaxFib = mutation({
-  args: { roomId: v.id("rooms"), maxFib: v.number() },
+/**
+ * Takes over an inactive player with the caller's nickname, e.g. when moving
+ * from laptop to phone, keeping their vote and roles. Facilitators must also
+ * give the reclaim code from their old device. The session token is rotated,
+ * so the old device is signed out.
+ */
+export const reclaimPlayer = mutation({
+  args: {
+    roomName: v.string(),
+    nickname: v.string(),
+    passcode: v.optional(v.string()),
+    reclaimCode: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.roomId, {
-      maxFib: args.maxFib,
-      lastInteraction: Date.now(),
+    const found = await findRoom(ctx, args.roomName);
+    if (!found) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+    const room = await ensureRoomIdentity(ctx, found);
+    await checkPasscode(room, args.passcode);
+
+    const player = await findReclaimable(ctx, room._id, args.nickname);
+    if (!player) {
+      throw pokerError(
+        "PLAYER_NOT_FOUND",
+        "That player is active again or has left the room"
+      );
+    }
+
+    // A nickname alone is not enough to take over the session's controls
+    if (isFacilitator(player)) {
+      if (!args.reclaimCode) {
+        throw pokerError(
+          "RECLAIM_CODE_REQUIRED",
+          `Enter the reclaim code shown on ${player.nickname}'s other device`
+        );
+      }
+      if (
+        !player.reclaimCode ||
+        normalizeReclaimCode(args.reclaimCode) !== player.reclaimCode
+      ) {
+        throw pokerError("WRONG_RECLAIM_CODE", "That reclaim code is wrong");
+      }
+    }
+
+    const sessionToken = newSessionToken();
+    await ctx.db.patch(player._id, {
+      sessionToken,
+      reclaimCode: newReclaimCode(),
+      replacedSessionToken: player.sessionToken,
+      leftAt: undefined,
     });
+    await ctx.db.patch(room._id, { lastInteraction: Date.now() });
+    await touchPresence(ctx, player);
+
+    return {
+      roomId: room._id,
+      slug: room.slug!,
+      playerId: player._id,
+      sessionToken,
+    };
+  },
+});
+
+export const setDeck = mutation({
+  args: { sessionToken: v.string(), deck: deckValidator },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const deck = normalizeDeck(args.deck);
+
+    await ctx.db.patch(facilitator.roomId, { deck, maxFib: undefined });
+    // Votes cast with the old deck may not exist in the new one
+    await clearVotes(ctx, facilitator.roomId);
   },
 });
 
 export const vote = mutation({
-  args: { playerId: v.id("players"), vote: v.union(v.string(), v.null()) },
+  args: { sessionToken: v.string(), vote: v.union(v.string(), v.null()) },
   handler: async (ctx, args) => {
-    const player = await ctx.db.get(args.playerId);
-    if (player) {
-      await ctx.db.patch(args.playerId, {
-        vote: args.vote,
-        lastSeen: Date.now(),
+    const player = await requirePlayer(ctx, args.sessionToken);
+    if (!isVoter(player)) {
+      throw pokerError("NOT_A_VOTER", "Observers cannot vote");
+    }
+    const room = await ctx.db.get(player.roomId);
+    if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+    if (
+      args.vote !== null &&
+      !resolveDeck(room).some((card) => card.label === args.vote)
+    ) {
+      throw pokerError("INVALID_CARD", "That card is not in this room's deck");
+    }
+    const settings = resolveSettings(room);
+    const phase = roomPhase(room);
+    if (phase === "finalized") {
+      throw pokerError("VOTING_CLOSED", "The estimate is already final");
+    }
+    if (phase === "revealed" && !settings.allowVoteChangeAfterReveal) {
+      throw pokerError("VOTING_CLOSED", "Cards are already revealed");
+    }
+
+    await ctx.db.patch(player._id, {
+      vote: args.vote,
+      votedAt: args.vote === null ? undefined : Date.now(),
+    });
+    await ctx.db.patch(player.roomId, { lastInteraction: Date.now() });
+
+    if (room.revealed) {
+      await snapshotRound(ctx, room);
+    } else if (settings.autoReveal && (await allVotersVoted(ctx, room))) {
+      await revealRound(ctx, room);
+    }
+  },
+});
+
+/** Attaches a short note to the caller's card, or clears it when empty. */
+export const setRationale = mutation({
+  args: { sessionToken: v.string(), rationale: v.string() },
+  handler: async (ctx, args) => {
+    const player = await requirePlayer(ctx, args.sessionToken);
+    if (!isVoter(player)) {
+      throw pokerError("NOT_A_VOTER", "Observers cannot vote");
+    }
+    const room = await ctx.db.get(player.roomId);
+    if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+    const phase = roomPhase(room);
+    if (phase === "finalized") {
+      throw pokerError("VOTING_CLOSED", "The estimate is already final");
+    }
+    if (
+      phase === "revealed" &&
+      !resolveSettings(room).allowVoteChangeAfterReveal
+    ) {
+      throw pokerError("VOTING_CLOSED", "Cards are already revealed");
+    }
+
+    const rationale = args.rationale.trim().slice(0, MAX_RATIONALE_LENGTH);
+    await ctx.db.patch(player._id, { rationale: rationale || undefined });
+    if (room.revealed) await snapshotRound(ctx, room);
+  },
+});
+
+/**
+ * Every comment in the room. Each one carries the story and round it was made
+ * on, so the thread and the history can pick out their own.
+ */
+export const getComments = query({
+  args: { roomId: v.id("rooms"), sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    if (!(await findMember(ctx, args.sessionToken, args.roomId))) return [];
+    return await ctx.db
+      .query("comments")
+      .withIndex("by_room_round", (q) => q.eq("roomId", args.roomId))
+      .collect();
+  },
+});
+
+export const addComment = mutation({
+  args: { sessionToken: v.string(), body: v.string() },
+  handler: async (ctx, args) => {
+    const player = await requirePlayer(ctx, args.sessionToken);
+    const body = args.body.trim();
+    if (!body) return;
+    const room = await ctx.db.get(player.roomId);
+    if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+
+    await ctx.db.insert("comments", {
+      roomId: room._id,
+      storyId: room.currentStoryId,
+      // Before reveal there is no round yet; the reveal fills this in
+      roundId: room.revealed ? room.roundId : undefined,
+      playerId: player._id,
+      nickname: player.nickname,
+      body: body.slice(0, MAX_COMMENT_LENGTH),
+    });
+    await ctx.db.patch(room._id, { lastInteraction: Date.now() });
+  },
+});
+
+/** Reactions and nudges still playing in the room. */
+export const getEvents = query({
+  args: { roomId: v.id("rooms"), sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    if (!(await findMember(ctx, args.sessionToken, args.roomId))) return [];
+    return await ctx.db
+      .query("events")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+  },
+});
+
+/** Sends an emoji burst over the caller's own tile. */
+export const react = mutation({
+  args: { sessionToken: v.string(), emoji: v.string() },
+  handler: async (ctx, args) => {
+    const player = await requirePlayer(ctx, args.sessionToken);
+    if (!isReactionEmoji(args.emoji)) {
+      throw pokerError("INVALID_REACTION", "That reaction is not available");
+    }
+
+    const eventId = await ctx.db.insert("events", {
+      roomId: player.roomId,
+      kind: "reaction",
+      fromPlayerId: player._id,
+      targetPlayerId: player._id,
+      emoji: args.emoji,
+    });
+    await ctx.scheduler.runAfter(EVENT_TTL_MS, internal.poker.expireEvent, {
+      eventId,
+    });
+  },
+});
+
+/**
+ * Pokes every voter still without a card. Returns how many were nudged so
+ * the facilitator can tell when there was nobody left to wait for.
+ */
+export const nudge = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const room = await ctx.db.get(facilitator.roomId);
+    if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+    if (!isVotingPhase(roomPhase(room))) {
+      throw pokerError("WRONG_PHASE", "Nudges are for rounds still voting");
+    }
+
+    const waitingOn = (
+      await ctx.db
+        .query("players")
+        .withIndex("by_room", (q) => q.eq("roomId", room._id))
+        .collect()
+    ).filter(
+      (p) =>
+        isVoter(p) &&
+        p.vote === null &&
+        p.leftAt === undefined &&
+        p.kickedReason === undefined
+    );
+    for (const player of waitingOn) {
+      const eventId = await ctx.db.insert("events", {
+        roomId: room._id,
+        kind: "nudge",
+        fromPlayerId: facilitator._id,
+        targetPlayerId: player._id,
+      });
+      await ctx.scheduler.runAfter(EVENT_TTL_MS, internal.poker.expireEvent, {
+        eventId,
       });
-      await ctx.db.patch(player.roomId, { lastInteraction: Date.now() });
     }
+    return waitingOn.length;
+  },
+});
+
+export const expireEvent = internalMutation({
+  args: { eventId: v.id("events") },
+  handler: async (ctx, args) => {
+    // Gone already if the room was deleted in the meantime
+    if (await ctx.db.get(args.eventId)) {
+      await ctx.db.delete(args.eventId);
+    }
+  },
+});
+
+export const setRole = mutation({
+  args: { sessionToken: v.string(), role: roleValidator },
+  handler: async (ctx, args) => {
+    const player = await requirePlayer(ctx, args.sessionToken);
+
+    // Observers hold no card, so switching away drops any pending vote
+    await ctx.db.patch(player._id, {
+      role: args.role,
+      ...(args.role === "observer"
+        ? { vote: null, votedAt: undefined, rationale: undefined }
+        : {}),
+    });
+    await ctx.db.patch(player.roomId, { lastInteraction: Date.now() });
   },
 });
 
 export const reveal = mutation({
-  args: { roomId: v.id("rooms"), revealed: v.boolean() },
+  args: { sessionToken: v.string(), revealed: v.boolean() },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.roomId, {
+    const player = await requirePlayer(ctx, args.sessionToken);
+    const room = await ctx.db.get(player.roomId);
+    if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+
+    const anyoneMayReveal =
+      args.revealed && resolveSettings(room).revealPolicy === "anyone";
+    if (!anyoneMayReveal) await requireFacilitator(ctx, args.sessionToken);
+
+    if (args.revealed && !room.revealed) {
+      await revealRound(ctx, room);
+      return;
+    }
+    await ctx.db.patch(room._id, {
       revealed: args.revealed,
+      ...(args.revealed ? {} : { phase: "open" as const }),
+      lastInteraction: Date.now(),
+    });
+  },
+});
+
+/**
+ * Votes on the same story again after a reveal. The revealed round stays in
+ * history as the previous attempt.
+ */
+export const startRevote = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const room = await getFacilitatorRoom(ctx, args.sessionToken);
+    if (roomPhase(room) !== "revealed") {
+      throw pokerError("WRONG_PHASE", "Reveal the cards before a re-vote");
+    }
+
+    const story = room.currentStoryId
+      ? await ctx.db.get(room.currentStoryId)
+      : null;
+    if (story?.status === "estimated") {
+      await ctx.db.patch(story._id, { status: "active" });
+    }
+    await clearVotes(ctx, room._id, "revote");
+  },
+});
+
+/** Records the estimate the team agreed on and closes the round. */
+export const finalizeRound = mutation({
+  args: { sessionToken: v.string(), estimate: v.string() },
+  handler: async (ctx, args) => {
+    const room = await getFacilitatorRoom(ctx, args.sessionToken);
+    if (roomPhase(room) !== "revealed" || !room.roundId) {
+      throw pokerError("WRONG_PHASE", "Reveal some votes before finalizing");
+    }
+    if (!resolveDeck(room).some((card) => card.label === args.estimate)) {
+      throw pokerError("INVALID_CARD", "That card is not in this room's deck");
+    }
+
+    await ctx.db.patch(room.roundId, { finalEstimate: args.estimate });
+    if (room.currentStoryId) {
+      await ctx.db.patch(room.currentStoryId, {
+        status: "estimated",
+        finalEstimate: args.estimate,
+      });
+    }
+    await ctx.db.patch(room._id, {
+      phase: "finalized",
       lastInteraction: Date.now(),
     });
   },
 });
 
 export const reset = mutation({
-  args: { roomId: v.id("rooms") },
+  args: { sessionToken: v.string() },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.roomId, {
-      revealed: false,
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    await clearVotes(ctx, facilitator.roomId);
+  },
+});
+
+export const updateSettings = mutation({
+  args: { sessionToken: v.string(), settings: settingsPatchValidator },
+  handler: async (ctx, args) => {
+    const gm = await requireGM(ctx, args.sessionToken);
+    const room = await ctx.db.get(gm.roomId);
+    if (!room) throw pokerError("ROOM_NOT_FOUND", "Room not found");
+    const current = resolveSettings(room);
+    const { defaultDeck, ...rest } = args.settings;
+    if (
+      rest.gmWaitMinutes !== undefined &&
+      !GM_WAIT_PRESETS_MINUTES.includes(rest.gmWaitMinutes)
+    ) {
+      throw pokerError(
+        "INVALID_SETTINGS",
+        `The GM can be waited for ${GM_WAIT_PRESETS_MINUTES.join(", ")} minutes`
+      );
+    }
+    const settings = {
+      ...current,
+      ...rest,
+      ...(defaultDeck ? { defaultDeck: normalizeDeck(defaultDeck) } : {}),
+    };
+
+    await ctx.db.patch(room._id, { settings, lastInteraction: Date.now() });
+
+    // A new default deck takes over the table straight away
+    if (defaultDeck && !sameDeck(settings.defaultDeck, room.deck)) {
+      await ctx.db.patch(room._id, {
+        deck: settings.defaultDeck,
+        maxFib: undefined,
+      });
+      await clearVotes(ctx, room._id);
+    }
+  },
+});
+
+/** Changes the room's display name; its slug and join code stay the same. */
+export const renameRoom = mutation({
+  args: { sessionToken: v.string(), name: v.string() },
+  handler: async (ctx, args) => {
+    const gm = await requireGM(ctx, args.sessionToken);
+    const name = cleanRoomName(args.name);
+    if (!name || name.length > MAX_ROOM_NAME_LENGTH) {
+      throw pokerError(
+        "INVALID_ROOM_NAME",
+        `Room names need 1 to ${MAX_ROOM_NAME_LENGTH} characters`
+      );
+    }
+
+    await ctx.db.patch(gm.roomId, { name, lastInteraction: Date.now() });
+  },
+});
+
+/** Locks the room behind a passcode, or unlocks it when given null. */
+export const setPasscode = mutation({
+  args: {
+    sessionToken: v.string(),
+    passcode: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const gm = await requireGM(ctx, args.sessionToken);
+    if (args.passcode === null) {
+      await ctx.db.patch(gm.roomId, { passcode: undefined });
+      return;
+    }
+
+    const passcode = args.passcode.trim();
+    if (passcode.length < MIN_PASSCODE_LENGTH) {
+      throw pokerError(
+        "INVALID_PASSCODE",
+        `Use at least ${MIN_PASSCODE_LENGTH} characters`
+      );
+    }
+    await ctx.db.patch(gm.roomId, { passcode: await createPasscode(passcode) });
+  },
+});
+
+export const startTimer = mutation({
+  args: {
+    sessionToken: v.string(),
+    durationMs: v.number(),
+    autoReveal: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const room = await getFacilitatorRoom(ctx, args.sessionToken);
+    if (args.durationMs < MIN_TIMER_MS || args.durationMs > MAX_TIMER_MS) {
+      throw pokerError("INVALID_TIMER", "Pick a duration up to an hour");
+    }
+
+    const endsAt = Date.now() + args.durationMs;
+    await ctx.db.patch(room._id, {
+      timer: {
+        durationMs: args.durationMs,
+        endsAt,
+        autoReveal: args.autoReveal,
+      },
       lastInteraction: Date.now(),
     });
-    const players = await ctx.db
-      .query("players")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .collect();
-    for (const player of players) {
-      await ctx.db.patch(player._id, { vote: null });
+    await scheduleExpiry(ctx, room._id, endsAt);
+  },
+});
+
+export const pauseTimer = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const room = await getFacilitatorRoom(ctx, args.sessionToken);
+    const timer = room.timer;
+    if (timer?.endsAt === undefined) return;
+
+    await ctx.db.patch(room._id, {
+      timer: {
+        durationMs: timer.durationMs,
+        remainingMs: Math.max(0, timer.endsAt - Date.now()),
+        autoReveal: timer.autoReveal,
+      },
+    });
+  },
+});
+
+export const resumeTimer = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const room = await getFacilitatorRoom(ctx, args.sessionToken);
+    const timer = room.timer;
+    if (!timer || timer.remainingMs === undefined) return;
+
+    const endsAt = Date.now() + timer.remainingMs;
+    await ctx.db.patch(room._id, {
+      timer: {
+        durationMs: timer.durationMs,
+        endsAt,
+        autoReveal: timer.autoReveal,
+      },
+    });
+    await scheduleExpiry(ctx, room._id, endsAt);
+  },
+});
+
+export const extendTimer = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const room = await getFacilitatorRoom(ctx, args.sessionToken);
+    const timer = room.timer;
+    if (!timer) return;
+
+    const now = Date.now();
+    const durationMs = timer.durationMs + TIMER_EXTENSION_MS;
+    if (timer.endsAt === undefined) {
+      await ctx.db.patch(room._id, {
+        timer: {
+          ...timer,
+          durationMs,
+          remainingMs: (timer.remainingMs ?? 0) + TIMER_EXTENSION_MS,
+        },
+      });
+      return;
     }
+
+    // An expired timer restarts from now rather than from its old deadline
+    const endsAt = Math.max(timer.endsAt, now) + TIMER_EXTENSION_MS;
+    await ctx.db.patch(room._id, {
+      timer: { ...timer, durationMs, endsAt },
+    });
+    await scheduleExpiry(ctx, room._id, endsAt);
   },
 });
 
-export const updatePlayerName = mutation({
+export const stopTimer = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const room = await getFacilitatorRoom(ctx, args.sessionToken);
+    await ctx.db.patch(room._id, { timer: undefined });
+  },
+});
+
+export const expireTimer = internalMutation({
+  args: { roomId: v.id("rooms"), endsAt: v.number() },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room || room.timer?.endsAt !== args.endsAt) return;
+
+    if (room.timer.autoReveal && !room.revealed) {
+      await revealRound(ctx, room);
+    }
+  },
+});
+
+/** Hands the GM role to another player; the caller stays as a player. */
+export const transferGM = mutation({
+  args: { sessionToken: v.string(), playerId: v.id("players") },
+  handler: async (ctx, args) => {
+    const gm = await requireGM(ctx, args.sessionToken);
+    const target = await getRoomPlayer(ctx, args.playerId, gm.roomId);
+    if (target._id === gm._id) return;
+
+    await ctx.db.patch(gm._id, { isGM: false });
+    await ctx.db.patch(target._id, { isGM: true, isCoFacilitator: undefined });
+    const room = await ctx.db.get(gm.roomId);
+    if (room?.backupGMId === target._id) {
+      await ctx.db.patch(room._id, { backupGMId: undefined });
+    }
+  },
+});
+
+/** Names who takes over under the "backup" succession policy, or nobody. */
+export const setBackupGM = mutation({
   args: {
+    sessionToken: v.string(),
+    playerId: v.union(v.id("players"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const gm = await requireGM(ctx, args.sessionToken);
+    if (args.playerId !== null) {
+      const target = await getRoomPlayer(ctx, args.playerId, gm.roomId);
+      if (target.isGM) {
+        throw pokerError("FORBIDDEN", "The game master cannot be their own backup");
+      }
+    }
+
+    await ctx.db.patch(gm.roomId, {
+      backupGMId: args.playerId ?? undefined,
+      lastInteraction: Date.now(),
+    });
+  },
+});
+
+export const setCoFacilitator = mutation({
+  args: {
+    sessionToken: v.string(),
     playerId: v.id("players"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const gm = await requireGM(ctx, args.sessionToken);
+    const target = await getRoomPlayer(ctx, args.playerId, gm.roomId);
+    if (target.isGM) return;
+
+    await ctx.db.patch(target._id, {
+      isCoFacilitator: args.enabled || undefined,
+    });
+  },
+});
+
+/**
+ * Removes a player from the room. The player is flagged rather than deleted
+ * so their client can show why; their heartbeats no longer count, so the
+ * sweep deletes them shortly after.
+ */
+export const kickPlayer = mutation({
+  args: {
+    sessionToken: v.string(),
+    playerId: v.id("players"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const target = await getRoomPlayer(ctx, args.playerId, facilitator.roomId);
+    if (target._id === facilitator._id || target.isGM) {
+      throw pokerError("FORBIDDEN", "The game master cannot be removed");
+    }
+    if (!canModerate(facilitator, target)) {
+      throw pokerError(
+        "FORBIDDEN",
+        "Only the game master can remove a co-facilitator"
+      );
+    }
+
+    await ctx.db.patch(target._id, {
+      kickedReason:
+        args.reason?.trim().slice(0, MAX_KICK_REASON_LENGTH) ||
+        "A facilitator removed you from the room",
+      role: "observer",
+      vote: null,
+      votedAt: undefined,
+      rationale: undefined,
+      isCoFacilitator: undefined,
+    });
+    await ctx.db.patch(target.roomId, { lastInteraction: Date.now() });
+  },
+});
+
+/** Moves a player to the observers, dropping any card they hold. */
+export const forceObserver = mutation({
+  args: { sessionToken: v.string(), playerId: v.id("players") },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const target = await getRoomPlayer(ctx, args.playerId, facilitator.roomId);
+    if (target.isGM) {
+      throw pokerError(
+        "FORBIDDEN",
+        "The game master cannot be moved to the observers"
+      );
+    }
+    if (!canModerate(facilitator, target)) {
+      throw pokerError(
+        "FORBIDDEN",
+        "Only the game master can move a co-facilitator"
+      );
+    }
+
+    await ctx.db.patch(target._id, {
+      role: "observer",
+      vote: null,
+      votedAt: undefined,
+      rationale: undefined,
+    });
+    await ctx.db.patch(target.roomId, { lastInteraction: Date.now() });
+  },
+});
+
+export const updatePlayerName = mutation({
+  args: {
+    sessionToken: v.string(),
     newName: v.string(),
   },
   handler: async (ctx, args) => {
-    const player = await ctx.db.get(args.playerId);
-    if (!player) throw new Error("Player not found");
+    const player = await requirePlayer(ctx, args.sessionToken);
 
     const existingPlayers = await ctx.db
       .query("players")
@@ -156,94 +1266,241 @@ export const updatePlayerName = mutation({
       existingPlayers.some(
         (p) =>
           p.nickname.toLowerCase() === finalNickname.toLowerCase() &&
-          p._id !== args.playerId
+          p._id !== player._id
       )
     ) {
       finalNickname = `${args.newName} ${counter}`;
       counter++;
     }
 
-    await ctx.db.patch(args.playerId, {
-      nickname: finalNickname,
-      lastSeen: Date.now(),
-    });
+    await ctx.db.patch(player._id, { nickname: finalNickname });
     await ctx.db.patch(player.roomId, { lastInteraction: Date.now() });
   },
 });
 
 export const leaveRoom = mutation({
-  args: { playerId: v.id("players") },
+  args: { sessionToken: v.string() },
   handler: async (ctx, args) => {
-    const player = await ctx.db.get(args.playerId);
+    const player = await findPlayer(ctx, args.sessionToken);
     if (!player) return;
 
-    const wasGM = player.isGM;
-    const roomId = player.roomId;
+    // A GM who leaves on purpose is not coming back, so nobody waits
+    await removePlayer(ctx, player);
+  },
+});
 
-    await ctx.db.delete(args.playerId);
+/**
+ * Called through the `/leave` HTTP endpoint when a tab closes. The player
+ * shows as gone straight away but is only removed after a grace period, so
+ * a refresh, which rejoins or pings within it, keeps their seat and vote.
+ */
+export const markLeft = internalMutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const player = await findPlayer(ctx, args.sessionToken);
+    if (!player || player.kickedReason !== undefined) return;
 
-    if (wasGM) {
-      const remainingPlayers = await ctx.db
-        .query("players")
-        .withIndex("by_room", (q) => q.eq("roomId", roomId))
-        .collect();
+    const leftAt = Date.now();
+    await ctx.db.patch(player._id, { leftAt });
+    await ctx.scheduler.runAfter(LEAVE_GRACE_MS, internal.poker.finalizeLeave, {
+      playerId: player._id,
+      leftAt,
+    });
 
-      if (remainingPlayers.length > 0) {
-        await ctx.db.patch(remainingPlayers[0]._id, { isGM: true });
-      }
+    const room = await ctx.db.get(player.roomId);
+    if (
+      room &&
+      !room.revealed &&
+      resolveSettings(room).autoReveal &&
+      (await allVotersVoted(ctx, room))
+    ) {
+      await revealRound(ctx, room);
+    }
+  },
+});
+
+export const finalizeLeave = internalMutation({
+  args: { playerId: v.id("players"), leftAt: v.number() },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    // Gone already, or back since
+    if (!player || player.leftAt !== args.leftAt) return;
+
+    // A room waiting for its GM keeps their seat; the sweep decides later
+    if (player.isGM) {
+      const room = await ctx.db.get(player.roomId);
+      if (room && resolveSettings(room).succession === "wait") return;
     }
+    await removePlayer(ctx, player);
   },
 });
 
 export const heartbeat = mutation({
-  args: { playerId: v.id("players") },
+  args: { sessionToken: v.string() },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.playerId, { lastSeen: Date.now() });
+    const player = await findPlayer(ctx, args.sessionToken);
+    if (player && player.kickedReason === undefined) {
+      await touchPresence(ctx, player);
+      // Back from a page restored out of the back/forward cache
+      if (player.leftAt !== undefined) {
+        await ctx.db.patch(player._id, { leftAt: undefined });
+      }
+      // Players who joined before reclaim codes existed get one now
+      if (player.reclaimCode === undefined) {
+        await ctx.db.patch(player._id, { reclaimCode: newReclaimCode() });
+      }
+    }
+    // Queries are cached, so clients sync their countdown clock from here.
+    // A seat that is gone, e.g. left too long ago, tells the client to rejoin.
+    return { serverTime: Date.now(), seated: player !== null };
   },
 });
 
-export const cleanOldPlayers = mutation({
-  args: { roomId: v.id("rooms") },
+export const getPresence = query({
+  args: { roomId: v.id("rooms"), sessionToken: v.string() },
   handler: async (ctx, args) => {
-    const players = await ctx.db
-      .query("players")
+    if (!(await findMember(ctx, args.sessionToken, args.roomId))) return [];
+    const presence = await ctx.db
+      .query("presence")
       .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
       .collect();
+    return presence.map(({ playerId, lastPing }) => ({ playerId, lastPing }));
+  },
+});
 
-    const now = Date.now();
-    const playerTimeout = 300000; // 5 minutes
-    const roomTimeout = 3600000; // 1 hour
-
-    for (const player of players) {
-      if (now - player.lastSeen > playerTimeout) {
-        await ctx.db.delete(player._id);
-
-        // If the GM left, assign a new GM
-        if (player.isGM) {
-          const remainingPlayers = await ctx.db
-            .query("players")
-            .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-            .collect();
-
-          if (remainingPlayers.length > 0) {
-            await ctx.db.patch(remainingPlayers[0]._id, { isGM: true });
-          }
-        }
-      }
+export const addStory = mutation({
+  args: {
+    sessionToken: v.string(),
+    title: v.string(),
+    description: v.optional(v.string()),
+    link: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const title = args.title.trim();
+    if (!title) throw pokerError("INVALID_STORY", "Story title is required");
+
+    const stories = await getStories(ctx, facilitator.roomId);
+    const order = stories.length > 0 ? stories[stories.length - 1].order + 1 : 0;
+
+    const storyId = await ctx.db.insert("stories", {
+      roomId: facilitator.roomId,
+      title,
+      description: args.description?.trim() || undefined,
+      link: args.link?.trim() || undefined,
+      order,
+      status: "pending",
+    });
+    await ctx.db.patch(facilitator.roomId, { lastInteraction: Date.now() });
+    return storyId;
+  },
+});
+
+/** Appends a batch of stories to the end of the queue, keeping their order. */
+export const importStories = mutation({
+  args: {
+    sessionToken: v.string(),
+    stories: v.array(storyInputValidator),
+  },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    if (args.stories.length > MAX_IMPORT_BATCH) {
+      throw pokerError(
+        "INVALID_IMPORT",
+        `Import at most ${MAX_IMPORT_BATCH} stories at a time`
+      );
     }
 
-    // Check if room itself should be deleted due to inactivity
-    const room = await ctx.db.get(args.roomId);
-    if (room && now - room.lastInteraction > roomTimeout) {
-      // Delete all remaining players and the room
-      const remainingPlayers = await ctx.db
-        .query("players")
-        .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-        .collect();
-      for (const p of remainingPlayers) {
-        await ctx.db.delete(p._id);
+    const stories = await getStories(ctx, facilitator.roomId);
+    let order = stories.length > 0 ? stories[stories.length - 1].order + 1 : 0;
+    let imported = 0;
+    for (const story of args.stories) {
+      const title = story.title.trim();
+      if (!title) continue;
+      await ctx.db.insert("stories", {
+        roomId: facilitator.roomId,
+        title,
+        description: story.description?.trim() || undefined,
+        link: story.link?.trim() || undefined,
+        order: order++,
+        status: "pending",
+      });
+      imported++;
+    }
+    await ctx.db.patch(facilitator.roomId, { lastInteraction: Date.now() });
+    return imported;
+  },
+});
+
+export const moveStory = mutation({
+  args: {
+    sessionToken: v.string(),
+    storyId: v.id("stories"),
+    direction: v.union(v.literal("up"), v.literal("down")),
+  },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const story = await getRoomStory(ctx, args.storyId, facilitator.roomId);
+
+    const stories = await getStories(ctx, story.roomId);
+    const index = stories.findIndex((s) => s._id === story._id);
+    const neighbour = stories[args.direction === "up" ? index - 1 : index + 1];
+    if (!neighbour) return;
+
+    // Swap positions with the adjacent story
+    await ctx.db.patch(story._id, { order: neighbour.order });
+    await ctx.db.patch(neighbour._id, { order: story.order });
+    await ctx.db.patch(story.roomId, { lastInteraction: Date.now() });
+  },
+});
+
+export const selectStory = mutation({
+  args: { sessionToken: v.string(), storyId: v.id("stories") },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const story = await getRoomStory(ctx, args.storyId, facilitator.roomId);
+
+    const room = await ctx.db.get(story.roomId);
+    if (!room || room.currentStoryId === story._id) return;
+
+    if (room.currentStoryId) {
+      const previous = await ctx.db.get(room.currentStoryId);
+      if (previous && previous.status === "active") {
+        await ctx.db.patch(previous._id, { status: "pending" });
       }
-      await ctx.db.delete(args.roomId);
     }
+
+    await ctx.db.patch(story._id, { status: "active" });
+    // The deck picked at the table carries over; the default deck only
+    // changes it when the settings do
+    await ctx.db.patch(room._id, { currentStoryId: story._id });
+    // A new story on the table starts a fresh round
+    await clearVotes(ctx, room._id);
+  },
+});
+
+export const skipStory = mutation({
+  args: { sessionToken: v.string(), storyId: v.id("stories") },
+  handler: async (ctx, args) => {
+    const facilitator = await requireFacilitator(ctx, args.sessionToken);
+    const story = await getRoomStory(ctx, args.storyId, facilitator.roomId);
+
+    await ctx.db.patch(story._id, { status: "skipped" });
+
+    const room = await ctx.db.get(story.roomId);
+    if (!room || room.currentStoryId !== story._id) {
+      await ctx.db.patch(story.roomId, { lastInteraction: Date.now() });
+      return;
+    }
+
+    // Skipping the current story moves on to the next pending one
+    const stories = await getStories(ctx, room._id);
+    const next = nextPendingStory(stories, story.order);
+
+    if (next) {
+      await ctx.db.patch(next._id, { status: "active" });
+    }
+    await ctx.db.patch(room._id, { currentStoryId: next?._id });
+    await clearVotes(ctx, room._id);
   },
 });
@@ -1,18 +1,134 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { distributionValidator } from "./lib/analytics";
+import { cardValidator, deckValidator } from "./lib/deck";
+import { eventKindValidator } from "./lib/events";
+import { passcodeValidator } from "./lib/passcode";
+import { phaseValidator } from "./lib/phase";
+import { roleValidator } from "./lib/roles";
+import { settingsValidator } from "./lib/settings";
+import { timerValidator } from "./lib/timer";
 
 export default defineSchema({
   rooms: defineTable({
+    // Display name, which the GM can change; rooms are found by slug or code
     name: v.string(),
+    // Canonical lowercase form of the original name, used in room URLs
+    slug: v.optional(v.string()),
+    // Short code people can type to join, e.g. K7M2QX
+    joinCode: v.optional(v.string()),
     revealed: v.boolean(),
+    // Kept alongside `revealed`, which stays true while results show
+    phase: v.optional(phaseValidator),
+    deck: v.optional(deckValidator),
+    // Legacy scale limit for rooms created before decks; see resolveDeck
     maxFib: v.optional(v.number()),
     lastInteraction: v.optional(v.number()),
-  }).index("by_name", ["name"]),
+    currentStoryId: v.optional(v.id("stories")),
+    timer: v.optional(timerValidator),
+    settings: v.optional(settingsValidator),
+    passcode: v.optional(passcodeValidator),
+    // The round recorded at the latest reveal, while its results are showing
+    roundId: v.optional(v.id("rounds")),
+    // Takes over under the "backup" succession policy
+    backupGMId: v.optional(v.id("players")),
+  })
+    // Only rooms created before slugs are still looked up by name
+    .index("by_name", ["name"])
+    .index("by_slug", ["slug"])
+    .index("by_joinCode", ["joinCode"])
+    .index("by_lastInteraction", ["lastInteraction"]),
   players: defineTable({
     roomId: v.id("rooms"),
     nickname: v.string(),
     vote: v.union(v.string(), v.null()),
+    votedAt: v.optional(v.number()),
+    // Why they picked their card; hidden with the card until reveal
+    rationale: v.optional(v.string()),
     isGM: v.boolean(),
-    lastSeen: v.number(),
+    // Can run the session alongside the GM, but not hand out roles
+    isCoFacilitator: v.optional(v.boolean()),
+    // Set when a facilitator removes the player; their client leaves on sight
+    kickedReason: v.optional(v.string()),
+    // Set when their tab closed; cleared if they are back within the grace
+    leftAt: v.optional(v.number()),
+    role: v.optional(roleValidator),
+    // Legacy heartbeat timestamp, superseded by the presence table
+    lastSeen: v.optional(v.number()),
+    // Secret proving the client is this player; never sent to other clients
+    sessionToken: v.optional(v.string()),
+    // Shown only to this player; needed to take over a facilitator's seat
+    reclaimCode: v.optional(v.string()),
+    // The token a reclaim replaced, so that device learns it was signed out
+    replacedSessionToken: v.optional(v.string()),
+  })
+    .index("by_room", ["roomId"])
+    .index("by_session", ["sessionToken"])
+    .index("by_replaced_session", ["replacedSessionToken"]),
+  presence: defineTable({
+    playerId: v.id("players"),
+    roomId: v.id("rooms"),
+    lastPing: v.number(),
+  })
+    .index("by_player", ["playerId"])
+    .index("by_room", ["roomId"])
+    .index("by_lastPing", ["lastPing"]),
+  stories: defineTable({
+    roomId: v.id("rooms"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    link: v.optional(v.string()),
+    order: v.number(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("active"),
+      v.literal("estimated"),
+      v.literal("skipped")
+    ),
+    // The estimate the team settled on, once a round is finalized
+    finalEstimate: v.optional(v.string()),
+  }).index("by_room_order", ["roomId", "order"]),
+  rounds: defineTable({
+    roomId: v.id("rooms"),
+    storyId: v.optional(v.id("stories")),
+    storyTitle: v.optional(v.string()),
+    votes: v.array(
+      v.object({
+        playerId: v.id("players"),
+        nickname: v.string(),
+        vote: v.string(),
+        votedAt: v.optional(v.number()),
+        rationale: v.optional(v.string()),
+      })
+    ),
+    deck: v.array(cardValidator),
+    average: v.string(),
+    distribution: distributionValidator,
+    revealedAt: v.number(),
+    // 1 for a story's first vote, counting up with each re-vote
+    attempt: v.optional(v.number()),
+    // Agreed by the facilitator; may differ from the average
+    finalEstimate: v.optional(v.string()),
+  })
+    .index("by_room", ["roomId"])
+    .index("by_story", ["storyId"]),
+  comments: defineTable({
+    roomId: v.id("rooms"),
+    // The story under discussion, if the room works from a backlog
+    storyId: v.optional(v.id("stories")),
+    // Comments made while voting join the round revealed next
+    roundId: v.optional(v.id("rounds")),
+    playerId: v.id("players"),
+    nickname: v.string(),
+    body: v.string(),
+  }).index("by_room_round", ["roomId", "roundId"]),
+  // Short-lived reactions and nudges, deleted once they have played
+  events: defineTable({
+    roomId: v.id("rooms"),
+    kind: eventKindValidator,
+    fromPlayerId: v.id("players"),
+    // The tile the event plays over
+    targetPlayerId: v.id("players"),
+    emoji: v.optional(v.string()),
   }).index("by_room", ["roomId"]),
 });
@@ -0,0 +1,261 @@
+import {
+	ChevronDown,
+	ChevronUp,
+	ExternalLink,
+	FileUp,
+	ListTodo,
+	Play,
+	Plus,
+	SkipForward,
+} from "lucide-react";
+import { useState } from "react";
+import type { Doc, Id } from "../../../convex/_generated/dataModel";
+import type { StoryInput } from "../../../convex/lib/stories";
+import { ImportDialog } from "./ImportDialog";
+
+const STATUS_STYLES: Record<Doc<"stories">["status"], string> = {
+	pending: "text-slate-600",
+	active: "text-indigo-400",
+	estimated: "text-emerald-500",
+	skipped: "text-slate-700 line-through",
+};
+
+/**
+ * Collapsible story queue for a room. Everyone sees the story currently on the
+ * table; only the GM can add, reorder, select or skip stories.
+ */
+export const BacklogPanel = ({
+	stories,
+	currentStoryId,
+	isGM,
+	onAdd,
+	onImport,
+	onMove,
+	onSelect,
+	onSkip,
+}: {
+	stories: Doc<"stories">[];
+	currentStoryId?: Id<"stories">;
+	isGM: boolean;
+	onAdd: (story: StoryInput) => void;
+	onImport: (stories: StoryInput[]) => Promise<void>;
+	onMove: (storyId: Id<"stories">, direction: "up" | "down") => void;
+	onSelect: (storyId: Id<"stories">) => void;
+	onSkip: (storyId: Id<"stories">) => void;
+}) => {
+	const [open, setOpen] = useState(false);
+	const [importing, setImporting] = useState(false);
+	const current = stories.find((s) => s._id === currentStoryId);
+	const doneCount = stories.filter(
+		(s) => s.status === "estimated" || s.status === "skipped",
+	).length;
+
+	const handleAdd = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const form = e.currentTarget;
+		const formData = new FormData(form);
+		const title = (formData.get("title") as string).trim();
+		if (!title) return;
+		onAdd({
+			title,
+			description: (formData.get("description") as string) || undefined,
+			link: (formData.get("link") as string) || undefined,
+		});
+		form.reset();
+	};
+
+	if (stories.length === 0 && !isGM) return null;
+
+	return (
+		<div className="rounded-2xl border border-slate-800/70 bg-[#0d1120] overflow-hidden">
+			{/* Current story + toggle */}
+			<button
+				type="button"
+				onClick={() => setOpen((o) => !o)}
+				className="w-full flex items-center gap-3 px-3.5 py-3 text-left no-tap-highlight"
+			>
+				<ListTodo className="w-4 h-4 text-indigo-400 shrink-0" />
+				<div className="flex-1 min-w-0">
+					<p className="text-[9px] font-bold text-slate-600 uppercase tracking-widest leading-tight">
+						{current ? "On the table" : "Backlog"}
+					</p>
+					<p className="text-sm font-bold text-white truncate leading-snug">
+						{current
+							? current.title
+							: stories.length > 0
+								? "No story selected"
+								: "Add stories to estimate"}
+					</p>
+				</div>
+				<span className="text-[10px] font-bold text-slate-600 tabular-nums shrink-0">
+					{doneCount}/{stories.length}
+				</span>
+				{open ? (
+					<ChevronUp className="w-4 h-4 text-slate-600 shrink-0" />
+				) : (
+					<ChevronDown className="w-4 h-4 text-slate-600 shrink-0" />
+				)}
+			</button>
+
+			{current && (current.description || current.link) && (
+				<div className="px-3.5 pb-3 -mt-1 space-y-1">
+					{current.description && (
+						<p className="text-xs text-slate-500 leading-snug">
+							{current.description}
+						</p>
+					)}
+					{current.link && (
+						<a
+							href={current.link}
+							target="_blank"
+							rel="noreferrer"
+							className="inline-flex items-center gap-1 text-[11px] font-medium text-indigo-400 hover:text-indigo-300"
+						>
+							<ExternalLink className="w-3 h-3" />
+							Open ticket
+						</a>
+					)}
+				</div>
+			)}
+
+			{open && (
+				<div className="border-t border-slate-800/70">
+					<ul className="max-h-64 overflow-y-auto ios-scroll divide-y divide-slate-800/50">
+						{stories.map((story, index) => {
+							const isCurrent = story._id === currentStoryId;
+							return (
+								<li
+									key={story._id}
+									className={`flex items-center gap-2 px-3.5 py-2 ${
+										isCurrent ? "bg-indigo-500/10" : ""
+									}`}
+								>
+									<span className="text-[10px] font-bold text-slate-700 tabular-nums w-4 shrink-0">
+										{index + 1}
+									</span>
+									<div className="flex-1 min-w-0">
+										<p
+											className={`text-xs font-semibold truncate ${STATUS_STYLES[story.status]}`}
+										>
+											{story.title}
+										</p>
+									</div>
+									{story.finalEstimate && (
+										<span
+											title="Final estimate"
+											className="text-[10px] font-black text-emerald-300 bg-emerald-500/15 rounded-md px-1.5 py-0.5 tabular-nums shrink-0"
+										>
+											{story.finalEstimate}
+										</span>
+									)}
+									{isGM && (
+										<div className="flex items-center gap-0.5 shrink-0">
+											<IconButton
+												title="Move up"
+												disabled={index === 0}
+												onClick={() => onMove(story._id, "up")}
+											>
+												<ChevronUp className="w-3.5 h-3.5" />
+											</IconButton>
+											<IconButton
+												title="Move down"
+												disabled={index === stories.length - 1}
+												onClick={() => onMove(story._id, "down")}
+											>
+												<ChevronDown className="w-3.5 h-3.5" />
+											</IconButton>
+											<IconButton
+												title="Estimate this story"
+												disabled={isCurrent}
+												onClick={() => onSelect(story._id)}
+											>
+												<Play className="w-3.5 h-3.5" />
+											</IconButton>
+											<IconButton
+												title="Skip story"
+												disabled={story.status === "skipped"}
+												onClick={() => onSkip(story._id)}
+											>
+												<SkipForward className="w-3.5 h-3.5" />
+											</IconButton>
+										</div>
+									)}
+								</li>
+							);
+						})}
+					</ul>
+
+					{isGM && (
+						<form
+							onSubmit={handleAdd}
+							className="border-t border-slate-800/70 p-3 space-y-2"
+						>
+							<div className="flex gap-2">
+								<input
+									type="text"
+									name="title"
+									required
+									placeholder="Story title"
+									className="flex-1 min-w-0 h-9 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none placeholder-slate-700 text-xs font-medium"
+								/>
+								<button
+									type="submit"
+									title="Add story"
+									className="h-9 w-9 flex items-center justify-center bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg transition-colors shrink-0 no-tap-highlight"
+								>
+									<Plus className="w-4 h-4" />
+								</button>
+								<button
+									type="button"
+									title="Import stories"
+									onClick={() => setImporting(true)}
+									className="h-9 w-9 flex items-center justify-center bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-slate-200 rounded-lg transition-colors shrink-0 no-tap-highlight"
+								>
+									<FileUp className="w-4 h-4" />
+								</button>
+							</div>
+							<input
+								type="text"
+								name="description"
+								placeholder="Description (optional)"
+								className="w-full h-9 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none placeholder-slate-700 text-xs"
+							/>
+							<input
+								type="url"
+								name="link"
+								placeholder="Ticket link (optional)"
+								className="w-full h-9 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none placeholder-slate-700 text-xs"
+							/>
+						</form>
+					)}
+				</div>
+			)}
+
+			{importing && (
+				<ImportDialog onImport={onImport} onClose={() => setImporting(false)} />
+			)}
+		</div>
+	);
+};
+
+const IconButton = ({
+	title,
+	disabled,
+	onClick,
+	children,
+}: {
+	title: string;
+	disabled?: boolean;
+	onClick: () => void;
+	children: React.ReactNode;
+}) => (
+	<button
+		type="button"
+		title={title}
+		disabled={disabled}
+		onClick={onClick}
+		className="w-7 h-7 flex items-center justify-center rounded-md text-slate-600 hover:text-slate-300 hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-600 transition-colors no-tap-highlight"
+	>
+		{children}
+	</button>
+);
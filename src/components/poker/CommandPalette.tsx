@@ -0,0 +1,138 @@
+import { Search } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { type Shortcut, formatShortcut } from "../../lib/shortcuts";
+
+export type Command = {
+	id: string;
+	label: string;
+	group: string;
+	shortcut?: Shortcut;
+	run: () => void;
+};
+
+/**
+ * ⌘K list of everything the room can do from here. Type to filter, move with
+ * the arrow keys and press Enter to run.
+ */
+export const CommandPalette = ({
+	commands,
+	onClose,
+}: {
+	commands: Command[];
+	onClose: () => void;
+}) => {
+	const [query, setQuery] = useState("");
+	const [active, setActive] = useState(0);
+	const listRef = useRef<HTMLUListElement>(null);
+
+	const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+	const matches = commands.filter((command) => {
+		const text = `${command.group} ${command.label}`.toLowerCase();
+		return terms.every((term) => text.includes(term));
+	});
+	const selected = Math.min(active, Math.max(matches.length - 1, 0));
+
+	useEffect(() => {
+		listRef.current
+			?.querySelector(`[data-index="${selected}"]`)
+			?.scrollIntoView({ block: "nearest" });
+	}, [selected]);
+
+	const run = (command: Command) => {
+		onClose();
+		command.run();
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === "ArrowDown") {
+			e.preventDefault();
+			setActive((selected + 1) % Math.max(matches.length, 1));
+		} else if (e.key === "ArrowUp") {
+			e.preventDefault();
+			setActive((selected - 1 + matches.length) % Math.max(matches.length, 1));
+		} else if (e.key === "Enter" && matches[selected]) {
+			e.preventDefault();
+			run(matches[selected]);
+		} else if (e.key === "Escape") {
+			onClose();
+		}
+	};
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-start justify-center pt-[15dvh] px-4">
+			<button
+				type="button"
+				aria-label="Close command palette"
+				onClick={onClose}
+				className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+			/>
+			<section
+				aria-label="Command palette"
+				className="relative w-full max-w-md bg-[#0d1120] border border-slate-800 rounded-2xl shadow-2xl overflow-hidden"
+			>
+				<div className="flex items-center gap-2 px-3 border-b border-slate-800">
+					<Search className="w-4 h-4 text-slate-600 shrink-0" />
+					<input
+						// biome-ignore lint/a11y/noAutofocus: the palette exists to be typed into
+						autoFocus
+						type="text"
+						aria-label="Search commands"
+						value={query}
+						onChange={(e) => {
+							setQuery(e.target.value);
+							setActive(0);
+						}}
+						onKeyDown={handleKeyDown}
+						placeholder="Type a command…"
+						className="flex-1 h-11 bg-transparent text-white outline-none placeholder-slate-700 text-sm font-medium"
+					/>
+				</div>
+				<ul ref={listRef} className="max-h-80 overflow-y-auto ios-scroll p-1">
+					{matches.length === 0 && (
+						<li className="px-3 py-6 text-center text-xs text-slate-600">
+							No matching commands
+						</li>
+					)}
+					{matches.map((command, index) => (
+						<li key={command.id} data-index={index}>
+							<button
+								type="button"
+								onClick={() => run(command)}
+								onMouseMove={() => setActive(index)}
+								className={`w-full h-9 flex items-center gap-2 px-3 rounded-lg text-left text-xs transition-colors no-tap-highlight ${
+									index === selected
+										? "bg-indigo-600/20 text-white"
+										: "text-slate-300"
+								}`}
+							>
+								<span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest w-14 shrink-0 truncate">
+									{command.group}
+								</span>
+								<span className="flex-1 truncate font-bold">
+									{command.label}
+								</span>
+								{command.shortcut && (
+									<KeyCaps keys={formatShortcut(command.shortcut)} />
+								)}
+							</button>
+						</li>
+					))}
+				</ul>
+			</section>
+		</div>
+	);
+};
+
+/** A chord drawn as keyboard keys. Shared with the shortcut sheet. */
+export const KeyCaps = ({ keys }: { keys: string[] }) => (
+	<span className="flex items-center gap-0.5 shrink-0">
+		{keys.map((key) => (
+			<kbd
+				key={key}
+				className="min-w-5 h-5 px-1 flex items-center justify-center rounded-md bg-slate-800 border border-slate-700 text-[10px] font-bold text-slate-300 font-sans"
+			>
+				{key}
+			</kbd>
+		))}
+	</span>
+);
@@ -0,0 +1,107 @@
+import { MessageSquare, Send } from "lucide-react";
+import { useState } from "react";
+import type { Doc } from "../../../convex/_generated/dataModel";
+import { MAX_COMMENT_LENGTH } from "../../../convex/lib/comments";
+
+type Comment = Doc<"comments">;
+
+const commentTime = (comment: Comment) =>
+	new Date(comment._creationTime).toLocaleTimeString([], {
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+
+/** Comments in the order they were made. Shared with the round history. */
+export const CommentList = ({ comments }: { comments: Comment[] }) => (
+	<ol className="space-y-1.5">
+		{comments.map((comment) => (
+			<li key={comment._id} className="text-[11px] leading-snug">
+				<span className="font-bold text-slate-400">{comment.nickname}</span>
+				<time
+					dateTime={new Date(comment._creationTime).toISOString()}
+					className="ml-1.5 text-[9px] text-slate-600 tabular-nums"
+				>
+					{commentTime(comment)}
+				</time>
+				<p className="text-slate-300 whitespace-pre-wrap break-words">
+					{comment.body}
+				</p>
+			</li>
+		))}
+	</ol>
+);
+
+/**
+ * Discussion for the story being estimated. Comments made before the reveal
+ * move into the round history with the votes they were about.
+ */
+export const CommentThread = ({
+	comments,
+	canComment,
+	onAdd,
+}: {
+	comments: Comment[];
+	canComment: boolean;
+	onAdd: (body: string) => Promise<void>;
+}) => {
+	const [body, setBody] = useState("");
+	const [sending, setSending] = useState(false);
+
+	const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		if (!body.trim()) return;
+		setSending(true);
+		try {
+			await onAdd(body);
+			setBody("");
+		} catch {
+			// The room reports the failure; keep the draft to retry
+		} finally {
+			setSending(false);
+		}
+	};
+
+	return (
+		<section className="rounded-xl border border-slate-800/70 px-3 py-2 space-y-2">
+			<div className="flex items-center gap-1.5">
+				<MessageSquare className="w-3.5 h-3.5 text-slate-600" />
+				<h2 className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">
+					Discussion
+				</h2>
+				{comments.length > 0 && (
+					<span className="text-[10px] font-bold text-slate-700 tabular-nums">
+						{comments.length}
+					</span>
+				)}
+			</div>
+
+			{comments.length > 0 && (
+				<div className="max-h-48 overflow-y-auto ios-scroll">
+					<CommentList comments={comments} />
+				</div>
+			)}
+
+			{canComment && (
+				<form onSubmit={handleSubmit} className="flex gap-1.5">
+					<input
+						type="text"
+						aria-label="Add a comment"
+						value={body}
+						onChange={(e) => setBody(e.target.value)}
+						maxLength={MAX_COMMENT_LENGTH}
+						placeholder="Add a comment…"
+						className="flex-1 min-w-0 h-8 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none placeholder-slate-700 text-xs font-medium"
+					/>
+					<button
+						type="submit"
+						disabled={!body.trim() || sending}
+						title="Send"
+						className="h-8 w-8 flex items-center justify-center rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-700 text-white transition-colors no-tap-highlight"
+					>
+						<Send className="w-3.5 h-3.5" />
+					</button>
+				</form>
+			)}
+		</section>
+	);
+};
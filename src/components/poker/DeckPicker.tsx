@@ -0,0 +1,131 @@
+import { useState } from "react";
+import {
+	CUSTOM_DECK_ID,
+	type Card,
+	DECK_PRESETS,
+	type Deck,
+	formatCustomDeck,
+	parseCustomDeck,
+	validateDeck,
+} from "../../../convex/lib/deck";
+
+/**
+ * GM control for the room's deck: pick a preset, or define a custom list of
+ * cards (`label` or `label=value`, comma separated).
+ */
+export const DeckPicker = ({
+	deck,
+	cards,
+	onChange,
+}: {
+	deck?: Deck;
+	cards: Card[];
+	onChange: (deck: Deck) => void;
+}) => {
+	const [editing, setEditing] = useState(false);
+	const [draft, setDraft] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const selected = deck?.preset ?? DECK_PRESETS[0].id;
+
+	const openEditor = () => {
+		setDraft(formatCustomDeck(cards));
+		setError(null);
+		setEditing(true);
+	};
+
+	const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+		if (e.target.value === CUSTOM_DECK_ID) {
+			openEditor();
+		} else {
+			setEditing(false);
+			onChange({ preset: e.target.value });
+		}
+	};
+
+	const handleApply = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const custom = { preset: CUSTOM_DECK_ID, cards: parseCustomDeck(draft) };
+		const problem = validateDeck(custom);
+		if (problem) {
+			setError(problem);
+			return;
+		}
+		onChange(custom);
+		setEditing(false);
+	};
+
+	return (
+		<div className="relative flex items-center gap-1.5 flex-1 min-w-0">
+			<label
+				htmlFor="deck-picker"
+				className="text-[9px] font-bold text-slate-700 uppercase tracking-widest shrink-0"
+			>
+				Deck
+			</label>
+			<select
+				id="deck-picker"
+				value={editing ? CUSTOM_DECK_ID : selected}
+				onChange={handleSelect}
+				className="h-7 min-w-0 flex-1 max-w-44 bg-slate-800/60 hover:bg-slate-800 text-slate-300 text-xs font-bold rounded-lg px-2 outline-none transition-colors no-tap-highlight"
+			>
+				{DECK_PRESETS.map((preset) => (
+					<option key={preset.id} value={preset.id}>
+						{preset.name}
+					</option>
+				))}
+				<option value={CUSTOM_DECK_ID}>Custom…</option>
+			</select>
+			{selected === CUSTOM_DECK_ID && !editing && (
+				<button
+					type="button"
+					onClick={openEditor}
+					className="h-7 px-2 rounded-lg text-[10px] font-bold text-indigo-400 hover:text-indigo-300 transition-colors no-tap-highlight"
+				>
+					Edit
+				</button>
+			)}
+
+			{editing && (
+				<form
+					onSubmit={handleApply}
+					className="absolute bottom-full left-0 mb-3 w-72 max-w-[calc(100vw-32px)] z-40 bg-[#0d1120] border border-slate-800 rounded-xl shadow-2xl p-3 space-y-2"
+				>
+					<label
+						htmlFor="custom-deck"
+						className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest"
+					>
+						Custom cards
+					</label>
+					<input
+						id="custom-deck"
+						type="text"
+						value={draft}
+						onChange={(e) => setDraft(e.target.value)}
+						placeholder="1, 2, 3, XL=20, ?"
+						className="w-full h-9 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none placeholder-slate-700 text-xs font-medium"
+					/>
+					<p
+						className={`text-[10px] leading-snug ${error ? "text-red-400" : "text-slate-600"}`}
+					>
+						{error ?? "Use label=value to give a card a numeric value."}
+					</p>
+					<div className="flex justify-end gap-1.5">
+						<button
+							type="button"
+							onClick={() => setEditing(false)}
+							className="h-7 px-2.5 rounded-lg text-xs font-bold text-slate-500 hover:text-slate-300 transition-colors no-tap-highlight"
+						>
+							Cancel
+						</button>
+						<button
+							type="submit"
+							className="h-7 px-2.5 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors no-tap-highlight"
+						>
+							Apply
+						</button>
+					</div>
+				</form>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,45 @@
+import { Download } from "lucide-react";
+import { useState } from "react";
+import { EXPORT_FORMATS, type ExportFormat } from "../../lib/export";
+
+/** Header button that downloads the session's rounds in a chosen format. */
+export const ExportMenu = ({
+	onExport,
+}: {
+	onExport: (format: ExportFormat) => void;
+}) => {
+	const [open, setOpen] = useState(false);
+
+	return (
+		<div className="relative">
+			<button
+				type="button"
+				onClick={() => setOpen((o) => !o)}
+				title="Export results"
+				className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+			>
+				<Download className="w-4 h-4" />
+			</button>
+			{open && (
+				<div className="absolute right-0 top-full mt-1 z-40 w-36 bg-[#0d1120] border border-slate-800 rounded-xl shadow-2xl p-1">
+					<p className="px-2.5 pt-1.5 pb-1 text-[9px] font-bold text-slate-600 uppercase tracking-widest">
+						Export as
+					</p>
+					{(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+						<button
+							key={format}
+							type="button"
+							onClick={() => {
+								setOpen(false);
+								onExport(format);
+							}}
+							className="w-full text-left h-8 px-2.5 rounded-lg text-xs font-bold text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+						>
+							{EXPORT_FORMATS[format].label}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,235 @@
+import { FileUp, X } from "lucide-react";
+import { useMemo, useState } from "react";
+import type { StoryInput } from "../../../convex/lib/stories";
+import {
+	type ColumnMapping,
+	type ImportFormat,
+	ImportError,
+	detectFormat,
+	guessMapping,
+	parseCSV,
+	parseJSONStories,
+	parseMarkdownList,
+	storiesFromCSV,
+} from "../../lib/import";
+
+const FORMATS: { id: ImportFormat; label: string }[] = [
+	{ id: "csv", label: "CSV" },
+	{ id: "json", label: "JSON" },
+	{ id: "markdown", label: "Markdown list" },
+];
+
+const MAPPED_FIELDS: { field: keyof ColumnMapping; label: string }[] = [
+	{ field: "key", label: "Key" },
+	{ field: "title", label: "Summary" },
+	{ field: "description", label: "Description" },
+	{ field: "link", label: "Link" },
+];
+
+type Parsed = {
+	stories: StoryInput[];
+	headers: string[];
+	error: string | null;
+};
+
+/**
+ * Backlog import: paste or upload a CSV export, a JSON array or a Markdown
+ * list, check the preview, then add everything to the story queue.
+ */
+export const ImportDialog = ({
+	onImport,
+	onClose,
+}: {
+	onImport: (stories: StoryInput[]) => Promise<void>;
+	onClose: () => void;
+}) => {
+	const [text, setText] = useState("");
+	const [format, setFormat] = useState<ImportFormat>("csv");
+	const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+	const [importing, setImporting] = useState(false);
+
+	const loadText = (value: string) => {
+		setText(value);
+		setFormat(detectFormat(value));
+		setMapping(null);
+	};
+
+	const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (file) loadText(await file.text());
+		e.target.value = "";
+	};
+
+	const parsed = useMemo((): Parsed => {
+		if (!text.trim()) return { stories: [], headers: [], error: null };
+		try {
+			if (format === "json") {
+				return { stories: parseJSONStories(text), headers: [], error: null };
+			}
+			if (format === "markdown") {
+				return { stories: parseMarkdownList(text), headers: [], error: null };
+			}
+			const [headers = [], ...rows] = parseCSV(text);
+			const columns = mapping ?? guessMapping(headers);
+			return { stories: storiesFromCSV(rows, columns), headers, error: null };
+		} catch (err) {
+			if (!(err instanceof ImportError)) throw err;
+			return { stories: [], headers: [], error: err.message };
+		}
+	}, [text, format, mapping]);
+
+	const columns = mapping ?? guessMapping(parsed.headers);
+
+	const handleImport = async () => {
+		setImporting(true);
+		try {
+			await onImport(parsed.stories);
+			onClose();
+		} catch {
+			// The room reports the failure; keep the dialog open to retry
+			setImporting(false);
+		}
+	};
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+			<button
+				type="button"
+				aria-label="Close import"
+				onClick={onClose}
+				className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+			/>
+			<section
+				aria-label="Import stories"
+				className="relative w-full sm:max-w-lg max-h-[90dvh] overflow-y-auto ios-scroll bg-[#0d1120] border border-slate-800 rounded-t-2xl sm:rounded-2xl shadow-2xl p-4 pb-[calc(env(safe-area-inset-bottom)+16px)] space-y-3"
+			>
+				<div className="flex items-center justify-between">
+					<h2 className="text-sm font-black text-white">Import stories</h2>
+					<button
+						type="button"
+						onClick={onClose}
+						title="Close"
+						className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+					>
+						<X className="w-4 h-4" />
+					</button>
+				</div>
+
+				<textarea
+					value={text}
+					onChange={(e) => loadText(e.target.value)}
+					rows={6}
+					placeholder={
+						"Paste a CSV export, a JSON array or a list:\n- First story\n- Second story https://…"
+					}
+					className="w-full bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 py-2 outline-none placeholder-slate-700 text-xs font-mono resize-y"
+				/>
+
+				<div className="flex items-center gap-2">
+					<label className="h-7 flex items-center gap-1.5 px-2.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold cursor-pointer transition-colors">
+						<FileUp className="w-3.5 h-3.5" />
+						Upload file
+						<input
+							type="file"
+							accept=".csv,.json,.md,.txt,text/csv,application/json,text/markdown,text/plain"
+							onChange={handleFile}
+							className="sr-only"
+						/>
+					</label>
+					<select
+						aria-label="Format"
+						value={format}
+						onChange={(e) => setFormat(e.target.value as ImportFormat)}
+						className="h-7 ml-auto bg-slate-800/60 hover:bg-slate-800 text-slate-300 text-xs font-bold rounded-lg px-2 outline-none transition-colors no-tap-highlight"
+					>
+						{FORMATS.map((f) => (
+							<option key={f.id} value={f.id}>
+								{f.label}
+							</option>
+						))}
+					</select>
+				</div>
+
+				{/* CSV column mapping */}
+				{format === "csv" && parsed.headers.length > 0 && (
+					<div className="grid grid-cols-2 gap-2">
+						{MAPPED_FIELDS.map(({ field, label }) => (
+							<label
+								key={field}
+								className="flex items-center justify-between gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest"
+							>
+								{label}
+								<select
+									value={columns[field]}
+									onChange={(e) =>
+										setMapping({ ...columns, [field]: Number(e.target.value) })
+									}
+									className="h-7 min-w-0 flex-1 max-w-32 bg-slate-800/60 text-slate-300 text-xs font-bold normal-case tracking-normal rounded-lg px-2 outline-none"
+								>
+									{field !== "title" && <option value={-1}>—</option>}
+									{parsed.headers.map((header, index) => (
+										<option key={`${index}-${header}`} value={index}>
+											{header || `Column ${index + 1}`}
+										</option>
+									))}
+								</select>
+							</label>
+						))}
+					</div>
+				)}
+
+				{/* Preview */}
+				{parsed.error ? (
+					<p className="text-[11px] text-red-400">{parsed.error}</p>
+				) : (
+					parsed.stories.length > 0 && (
+						<div className="rounded-lg border border-slate-800/70">
+							<p className="px-3 py-2 text-[10px] font-bold text-slate-600 uppercase tracking-widest border-b border-slate-800/70">
+								{parsed.stories.length}{" "}
+								{parsed.stories.length === 1 ? "story" : "stories"}
+							</p>
+							<ol className="max-h-48 overflow-y-auto ios-scroll divide-y divide-slate-800/50">
+								{parsed.stories.map((story, index) => (
+									<li
+										// biome-ignore lint/suspicious/noArrayIndexKey: parsed stories have no id
+										key={index}
+										className="px-3 py-1.5"
+									>
+										<p className="text-xs font-semibold text-slate-300 truncate">
+											{story.title}
+										</p>
+										{story.link && (
+											<p className="text-[10px] text-indigo-400 truncate">
+												{story.link}
+											</p>
+										)}
+									</li>
+								))}
+							</ol>
+						</div>
+					)
+				)}
+
+				<div className="flex justify-end gap-1.5">
+					<button
+						type="button"
+						onClick={onClose}
+						className="h-8 px-3 rounded-lg text-xs font-bold text-slate-500 hover:text-slate-300 transition-colors no-tap-highlight"
+					>
+						Cancel
+					</button>
+					<button
+						type="button"
+						onClick={handleImport}
+						disabled={parsed.stories.length === 0 || importing}
+						className="h-8 px-3 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-700 text-white transition-colors no-tap-highlight"
+					>
+						{importing
+							? "Importing…"
+							: `Import ${parsed.stories.length || ""}`.trim()}
+					</button>
+				</div>
+			</section>
+		</div>
+	);
+};
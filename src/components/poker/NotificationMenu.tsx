@@ -0,0 +1,98 @@
+import { Bell, BellOff } from "lucide-react";
+import { useState } from "react";
+import type { NotificationPrefs } from "../../hooks/useRoomNotifications";
+
+/** Header button for this browser's notification and sound preferences. */
+export const NotificationMenu = ({
+	prefs,
+	permission,
+	onChange,
+}: {
+	prefs: NotificationPrefs;
+	permission: NotificationPermission | "unsupported";
+	onChange: (patch: Partial<NotificationPrefs>) => void;
+}) => {
+	const [open, setOpen] = useState(false);
+	const enabled = prefs.notifications || prefs.sounds;
+
+	return (
+		<div className="relative">
+			<button
+				type="button"
+				onClick={() => setOpen((o) => !o)}
+				title="Notifications"
+				className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+			>
+				{enabled ? (
+					<Bell className="w-4 h-4" />
+				) : (
+					<BellOff className="w-4 h-4" />
+				)}
+			</button>
+			{open && (
+				<div className="absolute right-0 top-full mt-1 z-40 w-60 bg-[#0d1120] border border-slate-800 rounded-xl shadow-2xl p-3 space-y-3">
+					<p className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">
+						While this tab is hidden
+					</p>
+					<Option
+						label="Notifications"
+						hint="New rounds, reveals, nudges and becoming GM"
+						checked={prefs.notifications}
+						disabled={permission === "unsupported"}
+						onChange={(notifications) => onChange({ notifications })}
+					/>
+					<Option
+						label="Sounds"
+						hint="A short chime for the same moments"
+						checked={prefs.sounds}
+						onChange={(sounds) => onChange({ sounds })}
+					/>
+					{permission === "denied" && (
+						<p className="text-[10px] text-amber-400 leading-snug">
+							Notifications are blocked for this site in your browser settings.
+						</p>
+					)}
+					{permission === "unsupported" && (
+						<p className="text-[10px] text-slate-600 leading-snug">
+							This browser does not support notifications.
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+const Option = ({
+	label,
+	hint,
+	checked,
+	disabled = false,
+	onChange,
+}: {
+	label: string;
+	hint: string;
+	checked: boolean;
+	disabled?: boolean;
+	onChange: (checked: boolean) => void;
+}) => (
+	<label
+		className={`flex items-center justify-between gap-3 ${
+			disabled ? "opacity-50" : "cursor-pointer"
+		}`}
+	>
+		<span className="min-w-0">
+			<span className="block text-xs font-bold text-slate-300">{label}</span>
+			<span className="block text-[10px] text-slate-600 leading-snug">
+				{hint}
+			</span>
+		</span>
+		<input
+			type="checkbox"
+			checked={checked}
+			disabled={disabled}
+			onChange={(e) => onChange(e.target.checked)}
+			className="w-4 h-4 shrink-0 accent-indigo-500"
+		/>
+	</label>
+);
@@ -0,0 +1,107 @@
+import { Eye, Flag, Repeat, RotateCcw } from "lucide-react";
+import { useState } from "react";
+import type { RoundPhase } from "../../../convex/lib/phase";
+
+/**
+ * Facilitator buttons for the round: reveal while voting, then either call a
+ * re-vote or record the agreed estimate, which may differ from the average.
+ */
+export const PhaseControls = ({
+	phase,
+	votedCount,
+	allVoted,
+	cards,
+	suggested,
+	onReveal,
+	onRevote,
+	onFinalize,
+	onReset,
+}: {
+	phase: RoundPhase;
+	votedCount: number;
+	allVoted: boolean;
+	cards: string[];
+	suggested: string | null;
+	onReveal: () => void;
+	onRevote: () => void;
+	onFinalize: (estimate: string) => void;
+	onReset: () => void;
+}) => {
+	const [picking, setPicking] = useState(false);
+
+	return (
+		<div className="relative flex gap-1.5">
+			{phase === "revealed" ? (
+				<>
+					<button
+						type="button"
+						onClick={onRevote}
+						title="Vote on this story again"
+						className="h-8 flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold px-3 rounded-lg transition-colors no-tap-highlight"
+					>
+						<Repeat className="w-3.5 h-3.5 shrink-0" />
+						Re-vote
+					</button>
+					<button
+						type="button"
+						onClick={() => setPicking((p) => !p)}
+						className="h-8 flex items-center gap-1.5 bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold px-3 rounded-lg transition-colors shadow-sm no-tap-highlight"
+					>
+						<Flag className="w-3.5 h-3.5 shrink-0" />
+						Finalize
+					</button>
+				</>
+			) : (
+				<button
+					type="button"
+					onClick={onReveal}
+					disabled={phase === "finalized" || votedCount === 0}
+					className="h-8 flex items-center gap-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-700 text-white text-xs font-bold px-3 rounded-lg transition-colors shadow-sm no-tap-highlight"
+				>
+					<Eye className="w-3.5 h-3.5 shrink-0" />
+					{allVoted ? "Reveal!" : "Reveal"}
+				</button>
+			)}
+			<button
+				type="button"
+				onClick={onReset}
+				className="h-8 w-8 flex items-center justify-center bg-slate-800 hover:bg-slate-700 text-slate-500 hover:text-slate-300 rounded-lg transition-colors no-tap-highlight"
+				title="Reset votes"
+			>
+				<RotateCcw className="w-3.5 h-3.5" />
+			</button>
+
+			{picking && phase === "revealed" && (
+				<div className="absolute bottom-full right-0 mb-3 w-64 max-w-[calc(100vw-32px)] z-40 bg-[#0d1120] border border-slate-800 rounded-xl shadow-2xl p-3 space-y-2">
+					<p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+						Agreed estimate
+					</p>
+					<div className="grid grid-cols-5 gap-1.5">
+						{cards.map((card) => (
+							<button
+								key={card}
+								type="button"
+								onClick={() => {
+									onFinalize(card);
+									setPicking(false);
+								}}
+								className={`h-9 rounded-lg text-sm font-black transition-colors no-tap-highlight ${
+									card === suggested
+										? "bg-indigo-600 hover:bg-indigo-500 text-white"
+										: "bg-slate-800 hover:bg-slate-700 text-slate-300"
+								}`}
+							>
+								{card}
+							</button>
+						))}
+					</div>
+					{suggested && (
+						<p className="text-[10px] text-slate-600 leading-snug">
+							Highlighted: the card closest to the average.
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
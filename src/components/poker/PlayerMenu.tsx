@@ -0,0 +1,193 @@
+import { Crown, Eye, MoreVertical, ShieldCheck, UserX, X } from "lucide-react";
+import { useState } from "react";
+import { MAX_KICK_REASON_LENGTH } from "../../../convex/lib/auth";
+import { type PlayerRole, isVoter } from "../../../convex/lib/roles";
+
+/**
+ * Facilitator actions for another player: hand over the GM role, toggle
+ * co-facilitation, move them to the observers or remove them from the room.
+ * The GM-only actions are hidden from co-facilitators, and `moderatable`
+ * says whether the viewer may move or remove this player at all.
+ */
+export const PlayerMenu = ({
+	player,
+	viewerIsGM,
+	moderatable,
+	onTransferGM,
+	onSetCoFacilitator,
+	onForceObserver,
+	onKick,
+}: {
+	player: {
+		nickname: string;
+		isGM: boolean;
+		isCoFacilitator?: boolean;
+		role?: PlayerRole;
+	};
+	viewerIsGM: boolean;
+	moderatable: boolean;
+	onTransferGM: () => void;
+	onSetCoFacilitator: (enabled: boolean) => void;
+	onForceObserver: () => void;
+	onKick: (reason: string) => void;
+}) => {
+	const [open, setOpen] = useState(false);
+	const [kicking, setKicking] = useState(false);
+	const [reason, setReason] = useState("");
+
+	const close = () => {
+		setOpen(false);
+		setKicking(false);
+		setReason("");
+	};
+
+	const run = (action: () => void) => {
+		action();
+		close();
+	};
+
+	const handleKick = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		run(() => onKick(reason));
+	};
+
+	return (
+		<>
+			<button
+				type="button"
+				onClick={() => setOpen(true)}
+				title={`Manage ${player.nickname}`}
+				className="w-5 h-5 flex items-center justify-center rounded-md text-slate-600 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+			>
+				<MoreVertical className="w-3 h-3" />
+			</button>
+
+			{open && (
+				<div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+					<button
+						type="button"
+						aria-label="Close player actions"
+						onClick={close}
+						className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+					/>
+					<section
+						aria-label={`Manage ${player.nickname}`}
+						className="relative w-full sm:max-w-xs bg-[#0d1120] border border-slate-800 rounded-t-2xl sm:rounded-2xl shadow-2xl p-4 pb-[calc(env(safe-area-inset-bottom)+16px)] space-y-3"
+					>
+						<div className="flex items-center justify-between">
+							<h2 className="text-sm font-black text-white truncate">
+								{player.nickname}
+							</h2>
+							<button
+								type="button"
+								onClick={close}
+								title="Close"
+								className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+							>
+								<X className="w-4 h-4" />
+							</button>
+						</div>
+
+						{kicking ? (
+							<form onSubmit={handleKick} className="space-y-2">
+								<label
+									htmlFor="kick-reason"
+									className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest"
+								>
+									Reason (optional)
+								</label>
+								<input
+									id="kick-reason"
+									type="text"
+									value={reason}
+									onChange={(e) => setReason(e.target.value)}
+									maxLength={MAX_KICK_REASON_LENGTH}
+									placeholder="Shown to them on the home page"
+									className="w-full h-9 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none placeholder-slate-700 text-xs font-medium"
+								/>
+								<div className="flex justify-end gap-1.5">
+									<button
+										type="button"
+										onClick={() => setKicking(false)}
+										className="h-8 px-3 rounded-lg text-xs font-bold text-slate-500 hover:text-slate-300 transition-colors no-tap-highlight"
+									>
+										Cancel
+									</button>
+									<button
+										type="submit"
+										className="h-8 px-3 rounded-lg text-xs font-bold bg-red-600 hover:bg-red-500 text-white transition-colors no-tap-highlight"
+									>
+										Remove
+									</button>
+								</div>
+							</form>
+						) : (
+							<div className="space-y-1">
+								{viewerIsGM && (
+									<MenuAction
+										icon={<Crown className="w-3.5 h-3.5" />}
+										label="Make game master"
+										onClick={() => run(onTransferGM)}
+									/>
+								)}
+								{viewerIsGM && (
+									<MenuAction
+										icon={<ShieldCheck className="w-3.5 h-3.5" />}
+										label={
+											player.isCoFacilitator
+												? "Remove co-facilitator"
+												: "Make co-facilitator"
+										}
+										onClick={() =>
+											run(() => onSetCoFacilitator(!player.isCoFacilitator))
+										}
+									/>
+								)}
+								{moderatable && isVoter(player) && (
+									<MenuAction
+										icon={<Eye className="w-3.5 h-3.5" />}
+										label="Move to observers"
+										onClick={() => run(onForceObserver)}
+									/>
+								)}
+								{moderatable && (
+									<MenuAction
+										icon={<UserX className="w-3.5 h-3.5" />}
+										label="Remove from room"
+										danger
+										onClick={() => setKicking(true)}
+									/>
+								)}
+							</div>
+						)}
+					</section>
+				</div>
+			)}
+		</>
+	);
+};
+
+const MenuAction = ({
+	icon,
+	label,
+	danger = false,
+	onClick,
+}: {
+	icon: React.ReactNode;
+	label: string;
+	danger?: boolean;
+	onClick: () => void;
+}) => (
+	<button
+		type="button"
+		onClick={onClick}
+		className={`w-full h-9 flex items-center gap-2 px-3 rounded-lg text-xs font-bold transition-colors no-tap-highlight ${
+			danger
+				? "text-red-400 hover:bg-red-500/10"
+				: "text-slate-300 hover:bg-slate-800"
+		}`}
+	>
+		{icon}
+		{label}
+	</button>
+);
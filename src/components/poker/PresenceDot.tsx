@@ -0,0 +1,15 @@
+import type { PresenceStatus } from "../../../convex/lib/presence";
+
+const DOT_STYLES: Record<PresenceStatus, string> = {
+	online: "bg-emerald-500",
+	idle: "bg-amber-400",
+	offline: "bg-slate-600",
+};
+
+/** Small connection indicator shown next to a player's nickname. */
+export const PresenceDot = ({ status }: { status: PresenceStatus }) => (
+	<span
+		title={status[0].toUpperCase() + status.slice(1)}
+		className={`inline-block w-1.5 h-1.5 rounded-full shrink-0 ${DOT_STYLES[status]}`}
+	/>
+);
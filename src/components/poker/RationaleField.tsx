@@ -0,0 +1,48 @@
+import { MessageSquareQuote } from "lucide-react";
+import { useEffect, useState } from "react";
+import { MAX_RATIONALE_LENGTH } from "../../../convex/lib/comments";
+
+/**
+ * Optional note explaining the caller's card. It saves when the field loses
+ * focus or on Enter and stays hidden from others until the reveal.
+ */
+export const RationaleField = ({
+	rationale,
+	onSave,
+}: {
+	rationale: string;
+	onSave: (rationale: string) => void;
+}) => {
+	const [draft, setDraft] = useState(rationale);
+
+	// Follow the server, which clears the note when the round resets
+	useEffect(() => {
+		setDraft(rationale);
+	}, [rationale]);
+
+	const save = () => {
+		if (draft.trim() !== rationale) onSave(draft);
+	};
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				save();
+			}}
+			className="relative mb-2.5"
+		>
+			<MessageSquareQuote className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-600 pointer-events-none" />
+			<input
+				type="text"
+				aria-label="Why this card?"
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				onBlur={save}
+				maxLength={MAX_RATIONALE_LENGTH}
+				placeholder="Why this card? (optional, shown on reveal)"
+				className="w-full h-8 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 pl-8 pr-3 outline-none placeholder-slate-700 text-xs font-medium"
+			/>
+		</form>
+	);
+};
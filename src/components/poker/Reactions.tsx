@@ -0,0 +1,46 @@
+import type { Doc } from "../../../convex/_generated/dataModel";
+import { REACTION_EMOJIS } from "../../../convex/lib/events";
+
+/** One-tap emoji reactions, shown over the sender's tile for everybody. */
+export const ReactionBar = ({
+	onReact,
+}: {
+	onReact: (emoji: string) => void;
+}) => (
+	<div className="flex items-center justify-center gap-1">
+		{REACTION_EMOJIS.map((emoji) => (
+			<button
+				key={emoji}
+				type="button"
+				onClick={() => onReact(emoji)}
+				aria-label={`React with ${emoji}`}
+				className="h-8 w-8 flex items-center justify-center rounded-lg text-base hover:bg-slate-800 active:scale-90 transition-all no-tap-highlight"
+			>
+				{emoji}
+			</button>
+		))}
+	</div>
+);
+
+/**
+ * Emoji drifting up over a player tile. Each reaction animates once when it
+ * arrives; the server deletes it shortly after.
+ */
+export const ReactionBurst = ({
+	reactions,
+}: {
+	reactions: Doc<"events">[];
+}) => (
+	<div className="absolute inset-0 z-20 pointer-events-none" aria-hidden>
+		{reactions.map((reaction, index) => (
+			<span
+				key={reaction._id}
+				className="reaction-float absolute bottom-6 text-2xl"
+				// Spread simultaneous reactions so they don't stack exactly
+				style={{ left: `${50 + ((index % 3) - 1) * 18}%` }}
+			>
+				{reaction.emoji}
+			</span>
+		))}
+	</div>
+);
@@ -0,0 +1,205 @@
+import { Flag, MessageSquareQuote } from "lucide-react";
+import {
+	type Distribution,
+	type Outlier,
+	type VoteStats,
+	formatNumber,
+} from "../../../convex/lib/analytics";
+
+/** A note a player attached to their card; nameless in anonymous rooms. */
+export type VoteRationale = {
+	nickname: string;
+	vote: string;
+	rationale: string;
+};
+
+export function ResultBanner({
+	average,
+	distribution,
+	stats,
+	anonymous = false,
+	finalEstimate,
+	rationales = [],
+}: {
+	average: string;
+	distribution: Distribution;
+	stats?: VoteStats;
+	anonymous?: boolean;
+	finalEstimate?: string;
+	rationales?: VoteRationale[];
+}) {
+	const maxCount = Math.max(...distribution.map((d) => d.count));
+
+	return (
+		<div className="relative overflow-hidden rounded-2xl border border-indigo-500/20 bg-gradient-to-br from-indigo-600/12 to-violet-600/8 p-4">
+			<div
+				className="absolute inset-0 pointer-events-none"
+				style={{
+					backgroundImage: `radial-gradient(circle at 50% 0%, rgba(99,102,241,0.15) 0%, transparent 55%)`,
+				}}
+			/>
+
+			{/* Agreed estimate */}
+			{finalEstimate && (
+				<div className="relative flex items-center justify-center gap-2 mb-4 py-2 rounded-xl bg-emerald-500/15 border border-emerald-500/25">
+					<Flag className="w-3.5 h-3.5 text-emerald-400" />
+					<span className="text-[10px] font-bold text-emerald-400 uppercase tracking-widest">
+						Final estimate
+					</span>
+					<span className="text-xl font-black text-white leading-none">
+						{finalEstimate}
+					</span>
+				</div>
+			)}
+
+			{/* Average */}
+			<div className="relative text-center mb-4">
+				<p className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest mb-1">
+					Average
+				</p>
+				<div className="text-5xl font-black text-white leading-none">
+					{average}
+				</div>
+			</div>
+
+			{/* Consensus figures */}
+			{stats && stats.numericCount > 0 && (
+				<dl className="relative grid grid-cols-3 gap-1.5 mb-4">
+					<Stat label="Suggested" value={stats.nearestCard ?? "—"} highlight />
+					<Stat label="Median" value={formatStat(stats.median)} />
+					<Stat label="Mode" value={stats.mode.join(" / ")} />
+					<Stat
+						label="Range"
+						value={
+							stats.min === stats.max
+								? formatStat(stats.min)
+								: `${formatStat(stats.min)}–${formatStat(stats.max)}`
+						}
+					/>
+					<Stat label="Std dev" value={formatStat(stats.stdDev)} />
+					<Stat
+						label="Agreement"
+						value={`${Math.round(stats.agreement * 100)}%`}
+					/>
+				</dl>
+			)}
+
+			{/* Distribution bars */}
+			{distribution.length > 0 && (
+				<div className="relative flex items-end justify-center gap-2">
+					{distribution.map((item) => {
+						const pct = maxCount > 0 ? (item.count / maxCount) * 100 : 0;
+						return (
+							<div
+								key={item.value}
+								className="flex flex-col items-center gap-1"
+							>
+								<span className="text-[9px] font-bold text-slate-400 tabular-nums">
+									{item.count}
+								</span>
+								<div
+									className="w-8 bg-slate-800 rounded-t-md overflow-hidden flex flex-col justify-end"
+									style={{ height: 32 }}
+								>
+									<div
+										className={`w-full rounded-t-md transition-all duration-700 ${
+											item.isNumeric
+												? "bg-gradient-to-t from-indigo-700 to-indigo-500"
+												: "bg-slate-700"
+										}`}
+										style={{
+											height: `${Math.max(pct, 10)}%`,
+										}}
+									/>
+								</div>
+								<span className="text-[10px] font-black text-slate-400">
+									{item.value}
+								</span>
+							</div>
+						);
+					})}
+				</div>
+			)}
+			{/* Outliers explain their reasoning first */}
+			{stats &&
+				!anonymous &&
+				(stats.outliers.low.length > 0 || stats.outliers.high.length > 0) && (
+					<div className="relative mt-4 pt-3 border-t border-indigo-500/15 space-y-1 text-[11px]">
+						<OutlierLine label="Lowest" outliers={stats.outliers.low} />
+						<OutlierLine label="Highest" outliers={stats.outliers.high} />
+					</div>
+				)}
+
+			{/* Reasoning behind the cards */}
+			{rationales.length > 0 && (
+				<div className="relative mt-4 pt-3 border-t border-indigo-500/15 space-y-1.5">
+					<p className="flex items-center gap-1.5 text-[9px] font-bold text-slate-500 uppercase tracking-widest">
+						<MessageSquareQuote className="w-3 h-3" />
+						Reasoning
+					</p>
+					<ul className="space-y-1 text-[11px] text-slate-300">
+						{rationales.map((entry, index) => (
+							<li
+								// biome-ignore lint/suspicious/noArrayIndexKey: anonymous notes have no owner
+								key={index}
+								className="break-words"
+							>
+								{!anonymous && (
+									<span className="font-bold text-slate-500 mr-1.5">
+										{entry.nickname} ({entry.vote})
+									</span>
+								)}
+								{entry.rationale}
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+		</div>
+	);
+}
+
+const formatStat = (value: number | null) =>
+	value === null ? "—" : formatNumber(value);
+
+const Stat = ({
+	label,
+	value,
+	highlight,
+}: {
+	label: string;
+	value: string;
+	highlight?: boolean;
+}) => (
+	<div
+		className={`rounded-lg px-2 py-1.5 text-center ${
+			highlight ? "bg-indigo-500/20" : "bg-slate-900/40"
+		}`}
+	>
+		<dt className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+			{label}
+		</dt>
+		<dd
+			className={`text-sm font-black truncate ${
+				highlight ? "text-indigo-200" : "text-slate-200"
+			}`}
+		>
+			{value}
+		</dd>
+	</div>
+);
+
+const OutlierLine = ({
+	label,
+	outliers,
+}: {
+	label: string;
+	outliers: Outlier[];
+}) => (
+	<p className="text-slate-400 truncate">
+		<span className="font-bold text-slate-500 uppercase tracking-widest text-[9px] mr-1.5">
+			{label}
+		</span>
+		{outliers.map((o) => `${o.nickname} (${o.vote})`).join(", ")}
+	</p>
+);
@@ -0,0 +1,84 @@
+import { Keyboard } from "lucide-react";
+import { useState } from "react";
+import { useRoomShortcuts } from "../../hooks/useRoomShortcuts";
+import { SHORTCUTS, cardHotkeys } from "../../lib/shortcuts";
+import { type Command, CommandPalette } from "./CommandPalette";
+import { ShortcutSheet } from "./ShortcutSheet";
+
+const NO_CARDS = new Map<string, string>();
+
+/**
+ * Keyboard control for the room: card hotkeys, the facilitator's round
+ * shortcuts, the ⌘K palette and the cheat sheet. Renders the header button
+ * that opens the cheat sheet, plus whichever overlay is open.
+ */
+export const RoomShortcuts = ({
+	cards,
+	canVote,
+	isFacilitator,
+	commands,
+	onVote,
+	onReveal,
+	onReset,
+	onNextStory,
+}: {
+	cards: string[];
+	canVote: boolean;
+	isFacilitator: boolean;
+	commands: Command[];
+	onVote: (card: string) => void;
+	onReveal?: () => void;
+	onReset?: () => void;
+	onNextStory?: () => void;
+}) => {
+	const [overlay, setOverlay] = useState<"palette" | "cheatSheet" | null>(null);
+	const cardKeys = cardHotkeys(cards);
+
+	useRoomShortcuts({
+		// Keys go to the overlay while one is open
+		cardKeys: canVote && !overlay ? cardKeys : NO_CARDS,
+		onCard: onVote,
+		onReveal: overlay ? undefined : onReveal,
+		onReset: overlay ? undefined : onReset,
+		onNextStory: overlay ? undefined : onNextStory,
+		onPalette: () => setOverlay((o) => (o === "palette" ? null : "palette")),
+		onCheatSheet: () =>
+			setOverlay((o) => (o === "cheatSheet" ? null : "cheatSheet")),
+	});
+
+	return (
+		<>
+			<button
+				type="button"
+				onClick={() => setOverlay("cheatSheet")}
+				title="Keyboard shortcuts"
+				className="hidden sm:flex w-9 h-9 items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+			>
+				<Keyboard className="w-4 h-4" />
+			</button>
+
+			{overlay === "palette" && (
+				<CommandPalette
+					commands={[
+						...commands,
+						{
+							id: "shortcuts",
+							group: "Help",
+							label: "Keyboard shortcuts",
+							shortcut: SHORTCUTS.cheatSheet,
+							run: () => setOverlay("cheatSheet"),
+						},
+					]}
+					onClose={() => setOverlay(null)}
+				/>
+			)}
+			{overlay === "cheatSheet" && (
+				<ShortcutSheet
+					cardKeys={canVote ? cardKeys : NO_CARDS}
+					isFacilitator={isFacilitator}
+					onClose={() => setOverlay(null)}
+				/>
+			)}
+		</>
+	);
+};
@@ -0,0 +1,136 @@
+import { History } from "lucide-react";
+import type { Doc } from "../../../convex/_generated/dataModel";
+import {
+	type VoteEntry,
+	analyzeVotes,
+	formatNumber,
+} from "../../../convex/lib/analytics";
+import { CommentList } from "./CommentThread";
+import { ResultBanner } from "./ResultBanner";
+
+/** A round as returned by `getRounds`; anonymous rooms get nameless votes. */
+type RoundSummary = Omit<Doc<"rounds">, "votes"> & {
+	votes: (VoteEntry & { rationale?: string })[];
+};
+
+const rationalesOf = (round: RoundSummary) =>
+	round.votes.flatMap(({ nickname, vote, rationale }) =>
+		rationale ? [{ nickname, vote, rationale }] : [],
+	);
+
+const roundLabel = (round: RoundSummary, fallback: string) => {
+	const title = round.storyTitle ?? fallback;
+	return round.attempt && round.attempt > 1
+		? `${title} · re-vote ${round.attempt - 1}`
+		: title;
+};
+
+/** Scrollable list of revealed rounds, newest first, with their discussion. */
+export const RoundHistory = ({
+	rounds,
+	comments,
+	anonymous,
+}: {
+	rounds: RoundSummary[];
+	comments: Doc<"comments">[];
+	anonymous: boolean;
+}) => (
+	<section className="pt-2">
+		<div className="flex items-center gap-1.5 mb-2">
+			<History className="w-3.5 h-3.5 text-slate-600" />
+			<h2 className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">
+				Previous rounds
+			</h2>
+		</div>
+		<ol className="max-h-[28rem] overflow-y-auto ios-scroll space-y-3">
+			{rounds.map((round, index) => (
+				<li key={round._id} className="space-y-2">
+					<div className="flex items-baseline justify-between gap-2 px-1">
+						<p className="text-xs font-bold text-slate-300 truncate">
+							{roundLabel(round, `Round ${rounds.length - index}`)}
+						</p>
+						<time
+							dateTime={new Date(round.revealedAt).toISOString()}
+							className="text-[10px] text-slate-600 tabular-nums shrink-0"
+						>
+							{new Date(round.revealedAt).toLocaleTimeString([], {
+								hour: "2-digit",
+								minute: "2-digit",
+							})}
+						</time>
+					</div>
+					<ResultBanner
+						average={round.average}
+						distribution={round.distribution}
+						stats={analyzeVotes(round.votes, round.deck)}
+						anonymous={anonymous}
+						finalEstimate={round.finalEstimate}
+						rationales={rationalesOf(round)}
+					/>
+					<div className="flex flex-wrap gap-1.5 px-1">
+						{round.votes.map((entry) => (
+							<span
+								key={entry.playerId}
+								className="text-[10px] font-medium text-slate-500 bg-slate-800/60 rounded-md px-1.5 py-0.5"
+							>
+								{!anonymous && `${entry.nickname} `}
+								<span className="font-black text-slate-300">{entry.vote}</span>
+							</span>
+						))}
+					</div>
+					<RoundComments
+						comments={comments.filter((c) => c.roundId === round._id)}
+					/>
+				</li>
+			))}
+		</ol>
+	</section>
+);
+
+const RoundComments = ({ comments }: { comments: Doc<"comments">[] }) =>
+	comments.length > 0 ? (
+		<details className="px-1">
+			<summary className="text-[10px] font-bold text-slate-600 uppercase tracking-widest cursor-pointer select-none">
+				{comments.length} {comments.length === 1 ? "comment" : "comments"}
+			</summary>
+			<div className="mt-1.5">
+				<CommentList comments={comments} />
+			</div>
+		</details>
+	) : null;
+
+/** Earlier votes on the current story, to compare against a re-vote. */
+export const PreviousAttempts = ({ rounds }: { rounds: RoundSummary[] }) => (
+	<section className="rounded-xl border border-slate-800/70 px-3 py-2 space-y-1">
+		<h2 className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">
+			Earlier attempts
+		</h2>
+		<ol className="space-y-0.5">
+			{rounds.map((round) => {
+				const stats = analyzeVotes(round.votes, round.deck);
+				return (
+					<li
+						key={round._id}
+						className="flex items-center gap-2 text-[11px] text-slate-500 tabular-nums"
+					>
+						<span className="font-bold text-slate-400">
+							#{round.attempt ?? 1}
+						</span>
+						<span>
+							Average{" "}
+							<span className="font-black text-slate-300">{round.average}</span>
+						</span>
+						{stats.min !== null && stats.max !== null && (
+							<span>
+								Range {formatNumber(stats.min)}–{formatNumber(stats.max)}
+							</span>
+						)}
+						<span className="ml-auto">
+							{Math.round(stats.agreement * 100)}% agree
+						</span>
+					</li>
+				);
+			})}
+		</ol>
+	</section>
+);
@@ -0,0 +1,234 @@
+import { Pause, Play, Plus, Square, Timer } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+	type RoundTimer,
+	TIMER_EXTENSION_MS,
+	TIMER_PRESETS_MS,
+	formatCountdown,
+	timerRemaining,
+} from "../../../convex/lib/timer";
+
+/**
+ * Remaining time on the room timer, re-rendered while it runs. `clockOffset`
+ * is how far the server's clock is ahead of this device's.
+ */
+const useRemaining = (timer: RoundTimer, clockOffset: number) => {
+	const [now, setNow] = useState(() => Date.now());
+	const running = timer.endsAt !== undefined;
+
+	useEffect(() => {
+		if (!running) return;
+		setNow(Date.now());
+		const interval = setInterval(() => setNow(Date.now()), 250);
+		return () => clearInterval(interval);
+	}, [running]);
+
+	return timerRemaining(timer, now + clockOffset);
+};
+
+const countdownColor = (remaining: number) =>
+	remaining === 0
+		? "text-red-400"
+		: remaining <= 10_000
+			? "text-amber-400"
+			: "text-slate-300";
+
+/** Compact countdown for the room header. */
+export const TimerBadge = ({
+	timer,
+	clockOffset,
+}: {
+	timer: RoundTimer;
+	clockOffset: number;
+}) => {
+	const remaining = useRemaining(timer, clockOffset);
+	const paused = timer.endsAt === undefined;
+
+	return (
+		<span
+			title={paused ? "Timer paused" : "Round timer"}
+			className={`flex items-center gap-1 h-7 px-2 rounded-lg bg-slate-800/60 text-xs font-bold tabular-nums ${countdownColor(remaining)} ${
+				remaining === 0 ? "animate-pulse" : ""
+			}`}
+		>
+			{paused ? (
+				<Pause className="w-3 h-3 shrink-0" />
+			) : (
+				<Timer className="w-3 h-3 shrink-0" />
+			)}
+			{formatCountdown(remaining)}
+		</span>
+	);
+};
+
+/**
+ * Timer row for the bottom tray. Everyone sees the countdown; the GM can
+ * start, pause, extend or stop it.
+ */
+export const TimerPanel = ({
+	timer,
+	clockOffset,
+	isGM,
+	onStart,
+	onPause,
+	onResume,
+	onExtend,
+	onStop,
+}: {
+	timer?: RoundTimer;
+	clockOffset: number;
+	isGM: boolean;
+	onStart: (durationMs: number, autoReveal: boolean) => void;
+	onPause: () => void;
+	onResume: () => void;
+	onExtend: () => void;
+	onStop: () => void;
+}) => {
+	const [durationMs, setDurationMs] = useState(TIMER_PRESETS_MS[1]);
+	const [autoReveal, setAutoReveal] = useState(true);
+
+	if (timer) {
+		return (
+			<RunningTimer
+				timer={timer}
+				clockOffset={clockOffset}
+				isGM={isGM}
+				onPause={onPause}
+				onResume={onResume}
+				onExtend={onExtend}
+				onStop={onStop}
+			/>
+		);
+	}
+	if (!isGM) return null;
+
+	return (
+		<div className="flex items-center gap-2 mb-3">
+			<Timer className="w-3.5 h-3.5 text-slate-600 shrink-0" />
+			<select
+				aria-label="Timer duration"
+				value={durationMs}
+				onChange={(e) => setDurationMs(Number(e.target.value))}
+				className="h-7 bg-slate-800/60 hover:bg-slate-800 text-slate-300 text-xs font-bold rounded-lg px-2 outline-none transition-colors no-tap-highlight"
+			>
+				{TIMER_PRESETS_MS.map((ms) => (
+					<option key={ms} value={ms}>
+						{formatCountdown(ms)}
+					</option>
+				))}
+			</select>
+			<label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 select-none">
+				<input
+					type="checkbox"
+					checked={autoReveal}
+					onChange={(e) => setAutoReveal(e.target.checked)}
+					className="accent-indigo-500"
+				/>
+				Auto-reveal
+			</label>
+			<button
+				type="button"
+				onClick={() => onStart(durationMs, autoReveal)}
+				className="ml-auto h-7 flex items-center gap-1 px-2.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold transition-colors no-tap-highlight"
+			>
+				<Play className="w-3 h-3" />
+				Start timer
+			</button>
+		</div>
+	);
+};
+
+const RunningTimer = ({
+	timer,
+	clockOffset,
+	isGM,
+	onPause,
+	onResume,
+	onExtend,
+	onStop,
+}: {
+	timer: RoundTimer;
+	clockOffset: number;
+	isGM: boolean;
+	onPause: () => void;
+	onResume: () => void;
+	onExtend: () => void;
+	onStop: () => void;
+}) => {
+	const remaining = useRemaining(timer, clockOffset);
+	const paused = timer.endsAt === undefined;
+	const progress = timer.durationMs > 0 ? remaining / timer.durationMs : 0;
+
+	return (
+		<div className="flex items-center gap-2 mb-3">
+			<span
+				className={`text-sm font-black tabular-nums w-11 shrink-0 ${countdownColor(remaining)}`}
+			>
+				{formatCountdown(remaining)}
+			</span>
+			<div className="flex-1 min-w-0">
+				<div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+					<div
+						className={`h-full rounded-full transition-[width] duration-300 ${
+							remaining <= 10_000 ? "bg-amber-400" : "bg-indigo-500"
+						}`}
+						style={{ width: `${Math.min(100, progress * 100)}%` }}
+					/>
+				</div>
+				<p className="text-[9px] font-bold text-slate-700 uppercase tracking-widest mt-1">
+					{remaining === 0
+						? "Time's up"
+						: paused
+							? "Paused"
+							: timer.autoReveal
+								? "Reveals automatically"
+								: "Timeboxed"}
+				</p>
+			</div>
+			{isGM && (
+				<div className="flex items-center gap-1 shrink-0">
+					{remaining > 0 && (
+						<TimerButton
+							title={paused ? "Resume timer" : "Pause timer"}
+							onClick={paused ? onResume : onPause}
+						>
+							{paused ? (
+								<Play className="w-3.5 h-3.5" />
+							) : (
+								<Pause className="w-3.5 h-3.5" />
+							)}
+						</TimerButton>
+					)}
+					<TimerButton
+						title={`Add ${TIMER_EXTENSION_MS / 1000} seconds`}
+						onClick={onExtend}
+					>
+						<Plus className="w-3.5 h-3.5" />
+					</TimerButton>
+					<TimerButton title="Stop timer" onClick={onStop}>
+						<Square className="w-3 h-3" />
+					</TimerButton>
+				</div>
+			)}
+		</div>
+	);
+};
+
+const TimerButton = ({
+	title,
+	onClick,
+	children,
+}: {
+	title: string;
+	onClick: () => void;
+	children: React.ReactNode;
+}) => (
+	<button
+		type="button"
+		title={title}
+		onClick={onClick}
+		className="h-7 w-7 flex items-center justify-center rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-500 hover:text-slate-300 transition-colors no-tap-highlight"
+	>
+		{children}
+	</button>
+);
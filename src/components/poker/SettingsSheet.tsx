@@ -0,0 +1,387 @@
+import { Lock, LockOpen, X } from "lucide-react";
+import { useState } from "react";
+import {
+	CUSTOM_DECK_ID,
+	DECK_PRESETS,
+	type Deck,
+} from "../../../convex/lib/deck";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { MIN_PASSCODE_LENGTH } from "../../../convex/lib/passcode";
+import { MAX_ROOM_NAME_LENGTH } from "../../../convex/lib/rooms";
+import {
+	GM_WAIT_PRESETS_MINUTES,
+	type RevealPolicy,
+	type RoomSettings,
+	type SettingsPatch,
+	type SuccessionPolicy,
+} from "../../../convex/lib/settings";
+
+const REVEAL_POLICIES: { id: RevealPolicy; label: string }[] = [
+	{ id: "facilitator", label: "GM only" },
+	{ id: "anyone", label: "Anyone" },
+];
+
+const SUCCESSION_POLICIES: { id: SuccessionPolicy; label: string }[] = [
+	{ id: "longestConnected", label: "Longest here" },
+	{ id: "backup", label: "Backup" },
+	{ id: "wait", label: "Wait" },
+];
+
+const SUCCESSION_HINTS: Record<SuccessionPolicy, string> = {
+	longestConnected: "The voter who has been here longest takes over.",
+	backup: "Your backup takes over, or else the voter here longest.",
+	wait: "Nobody takes over until you have been gone this long.",
+};
+
+/**
+ * GM sheet for room settings. Each control saves on change, so the sheet has
+ * no submit step.
+ */
+export const SettingsSheet = ({
+	name,
+	settings,
+	deck,
+	hasPasscode,
+	players,
+	backupGMId,
+	onChange,
+	onSetPasscode,
+	onSetBackupGM,
+	onRename,
+	onClose,
+}: {
+	name: string;
+	settings: RoomSettings;
+	deck?: Deck;
+	hasPasscode: boolean;
+	players: { _id: Id<"players">; nickname: string; isGM: boolean }[];
+	backupGMId?: Id<"players">;
+	onChange: (patch: SettingsPatch) => void;
+	onSetPasscode: (passcode: string | null) => void;
+	onSetBackupGM: (playerId: Id<"players"> | null) => void;
+	onRename: (name: string) => void;
+	onClose: () => void;
+}) => {
+	const customDeck = deck?.preset === CUSTOM_DECK_ID ? deck : null;
+
+	const handleDeck = (e: React.ChangeEvent<HTMLSelectElement>) => {
+		if (e.target.value === CUSTOM_DECK_ID) {
+			if (customDeck) onChange({ defaultDeck: customDeck });
+		} else {
+			onChange({ defaultDeck: { preset: e.target.value } });
+		}
+	};
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+			<button
+				type="button"
+				aria-label="Close settings"
+				onClick={onClose}
+				className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+			/>
+			<section
+				aria-label="Room settings"
+				className="relative w-full sm:max-w-sm bg-[#0d1120] border border-slate-800 rounded-t-2xl sm:rounded-2xl shadow-2xl p-4 pb-[calc(env(safe-area-inset-bottom)+16px)] space-y-4"
+			>
+				<div className="flex items-center justify-between">
+					<h2 className="text-sm font-black text-white">Room settings</h2>
+					<button
+						type="button"
+						onClick={onClose}
+						title="Close"
+						className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+					>
+						<X className="w-4 h-4" />
+					</button>
+				</div>
+
+				<NameField name={name} onRename={onRename} />
+
+				<div className="space-y-3">
+					<Toggle
+						label="Auto-reveal"
+						hint="Reveal as soon as every voter has picked a card"
+						checked={settings.autoReveal}
+						onChange={(autoReveal) => onChange({ autoReveal })}
+					/>
+					<Toggle
+						label="Allow changes after reveal"
+						hint="Voters can still switch cards while results show"
+						checked={settings.allowVoteChangeAfterReveal}
+						onChange={(allowVoteChangeAfterReveal) =>
+							onChange({ allowVoteChangeAfterReveal })
+						}
+					/>
+					<Toggle
+						label="Anonymous results"
+						hint="Show the cards without who played them"
+						checked={settings.anonymousResults}
+						onChange={(anonymousResults) => onChange({ anonymousResults })}
+					/>
+				</div>
+
+				<div className="flex items-center justify-between gap-3">
+					<span className="text-xs font-bold text-slate-300">
+						Who can reveal
+					</span>
+					<Segment
+						options={REVEAL_POLICIES}
+						value={settings.revealPolicy}
+						onChange={(revealPolicy) => onChange({ revealPolicy })}
+					/>
+				</div>
+
+				<div className="space-y-2">
+					<div className="flex items-center justify-between gap-3">
+						<span className="text-xs font-bold text-slate-300">
+							If the GM leaves
+						</span>
+						<Segment
+							options={SUCCESSION_POLICIES}
+							value={settings.succession}
+							onChange={(succession) => onChange({ succession })}
+						/>
+					</div>
+					{settings.succession === "backup" && (
+						<select
+							aria-label="Backup GM"
+							value={backupGMId ?? ""}
+							onChange={(e) =>
+								onSetBackupGM(
+									e.target.value ? (e.target.value as Id<"players">) : null,
+								)
+							}
+							className="h-7 w-full bg-slate-800/60 hover:bg-slate-800 text-slate-300 text-xs font-bold rounded-lg px-2 outline-none transition-colors no-tap-highlight"
+						>
+							<option value="">No backup chosen</option>
+							{players
+								.filter((p) => !p.isGM)
+								.map((p) => (
+									<option key={p._id} value={p._id}>
+										{p.nickname}
+									</option>
+								))}
+						</select>
+					)}
+					{settings.succession === "wait" && (
+						<select
+							aria-label="Wait for the GM"
+							value={settings.gmWaitMinutes}
+							onChange={(e) =>
+								onChange({ gmWaitMinutes: Number(e.target.value) })
+							}
+							className="h-7 w-full bg-slate-800/60 hover:bg-slate-800 text-slate-300 text-xs font-bold rounded-lg px-2 outline-none transition-colors no-tap-highlight"
+						>
+							{GM_WAIT_PRESETS_MINUTES.map((minutes) => (
+								<option key={minutes} value={minutes}>
+									{minutes} minutes
+								</option>
+							))}
+						</select>
+					)}
+					<p className="text-[10px] text-slate-600 leading-snug">
+						{SUCCESSION_HINTS[settings.succession]}
+					</p>
+				</div>
+
+				<div className="flex items-center justify-between gap-3">
+					<label
+						htmlFor="default-deck"
+						className="text-xs font-bold text-slate-300"
+					>
+						Default deck
+					</label>
+					<select
+						id="default-deck"
+						value={settings.defaultDeck.preset}
+						onChange={handleDeck}
+						className="h-7 min-w-0 max-w-44 bg-slate-800/60 hover:bg-slate-800 text-slate-300 text-xs font-bold rounded-lg px-2 outline-none transition-colors no-tap-highlight"
+					>
+						{DECK_PRESETS.map((preset) => (
+							<option key={preset.id} value={preset.id}>
+								{preset.name}
+							</option>
+						))}
+						{(customDeck || settings.defaultDeck.preset === CUSTOM_DECK_ID) && (
+							<option value={CUSTOM_DECK_ID}>Current custom deck</option>
+						)}
+					</select>
+				</div>
+				<p className="text-[10px] text-slate-600 leading-snug -mt-2">
+					Each story you select starts with this deck.
+				</p>
+
+				<PasscodeField hasPasscode={hasPasscode} onSet={onSetPasscode} />
+			</section>
+		</div>
+	);
+};
+
+const Segment = <T extends string>({
+	options,
+	value,
+	onChange,
+}: {
+	options: { id: T; label: string }[];
+	value: T;
+	onChange: (value: T) => void;
+}) => (
+	<div className="flex bg-slate-800/60 rounded-lg p-0.5">
+		{options.map((option) => (
+			<button
+				key={option.id}
+				type="button"
+				onClick={() => onChange(option.id)}
+				className={`h-7 px-2.5 rounded-md text-xs font-bold transition-colors no-tap-highlight ${
+					value === option.id
+						? "bg-indigo-600 text-white"
+						: "text-slate-500 hover:text-slate-300"
+				}`}
+			>
+				{option.label}
+			</button>
+		))}
+	</div>
+);
+
+const Toggle = ({
+	label,
+	hint,
+	checked,
+	onChange,
+}: {
+	label: string;
+	hint: string;
+	checked: boolean;
+	onChange: (checked: boolean) => void;
+}) => (
+	<label className="flex items-center justify-between gap-3 cursor-pointer">
+		<span className="min-w-0">
+			<span className="block text-xs font-bold text-slate-300">{label}</span>
+			<span className="block text-[10px] text-slate-600 leading-snug">
+				{hint}
+			</span>
+		</span>
+		<input
+			type="checkbox"
+			checked={checked}
+			onChange={(e) => onChange(e.target.checked)}
+			className="w-4 h-4 shrink-0 accent-indigo-500"
+		/>
+	</label>
+);
+
+/** The room's display name; links and the join code keep working. */
+const NameField = ({
+	name,
+	onRename,
+}: {
+	name: string;
+	onRename: (name: string) => void;
+}) => {
+	const [draft, setDraft] = useState(name);
+	const trimmed = draft.trim();
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				onRename(trimmed);
+			}}
+			className="flex items-center gap-2"
+		>
+			<label
+				htmlFor="room-name"
+				className="text-xs font-bold text-slate-300 shrink-0"
+			>
+				Room name
+			</label>
+			<input
+				id="room-name"
+				type="text"
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				maxLength={MAX_ROOM_NAME_LENGTH}
+				className="flex-1 min-w-0 h-8 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none text-xs"
+			/>
+			<button
+				type="submit"
+				disabled={!trimmed || trimmed === name}
+				className="h-8 px-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-700 text-white text-xs font-bold transition-colors no-tap-highlight"
+			>
+				Save
+			</button>
+		</form>
+	);
+};
+
+/** Locks the room behind a passcode; the passcode itself is never shown. */
+const PasscodeField = ({
+	hasPasscode,
+	onSet,
+}: {
+	hasPasscode: boolean;
+	onSet: (passcode: string | null) => void;
+}) => {
+	const [draft, setDraft] = useState("");
+
+	if (hasPasscode) {
+		return (
+			<div className="flex items-center justify-between gap-3 pt-3 border-t border-slate-800/70">
+				<span className="flex items-center gap-1.5 text-xs font-bold text-slate-300">
+					<Lock className="w-3.5 h-3.5 text-emerald-400" />
+					Locked with a passcode
+				</span>
+				<button
+					type="button"
+					onClick={() => onSet(null)}
+					className="h-7 flex items-center gap-1 px-2.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold transition-colors no-tap-highlight"
+				>
+					<LockOpen className="w-3 h-3" />
+					Unlock
+				</button>
+			</div>
+		);
+	}
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				onSet(draft);
+				setDraft("");
+			}}
+			className="pt-3 border-t border-slate-800/70 space-y-1.5"
+		>
+			<label
+				htmlFor="room-passcode"
+				className="block text-xs font-bold text-slate-300"
+			>
+				Passcode
+			</label>
+			<div className="flex gap-2">
+				<input
+					id="room-passcode"
+					type="password"
+					value={draft}
+					onChange={(e) => setDraft(e.target.value)}
+					autoComplete="new-password"
+					placeholder="Anyone can join"
+					className="flex-1 min-w-0 h-8 bg-[#070a13] text-white rounded-lg border border-slate-800 focus:border-indigo-500 px-3 outline-none placeholder-slate-700 text-xs"
+				/>
+				<button
+					type="submit"
+					disabled={draft.trim().length < MIN_PASSCODE_LENGTH}
+					className="h-8 flex items-center gap-1 px-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-700 text-white text-xs font-bold transition-colors no-tap-highlight"
+				>
+					<Lock className="w-3 h-3" />
+					Lock
+				</button>
+			</div>
+			<p className="text-[10px] text-slate-600 leading-snug">
+				People already in the room stay in; newcomers need the passcode.
+			</p>
+		</form>
+	);
+};
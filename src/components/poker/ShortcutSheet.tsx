@@ -0,0 +1,95 @@
+import { X } from "lucide-react";
+import { SHORTCUTS, formatShortcut } from "../../lib/shortcuts";
+import { KeyCaps } from "./CommandPalette";
+
+/** Every shortcut that works for this player, including the deck's keys. */
+export const ShortcutSheet = ({
+	cardKeys,
+	isFacilitator,
+	onClose,
+}: {
+	cardKeys: Map<string, string>;
+	isFacilitator: boolean;
+	onClose: () => void;
+}) => (
+	<div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+		<button
+			type="button"
+			aria-label="Close keyboard shortcuts"
+			onClick={onClose}
+			className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+		/>
+		<section
+			aria-label="Keyboard shortcuts"
+			className="relative w-full sm:max-w-sm max-h-[90dvh] overflow-y-auto ios-scroll bg-[#0d1120] border border-slate-800 rounded-t-2xl sm:rounded-2xl shadow-2xl p-4 pb-[calc(env(safe-area-inset-bottom)+16px)] space-y-4"
+		>
+			<div className="flex items-center justify-between">
+				<h2 className="text-sm font-black text-white">Keyboard shortcuts</h2>
+				<button
+					type="button"
+					onClick={onClose}
+					title="Close"
+					className="w-8 h-8 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+				>
+					<X className="w-4 h-4" />
+				</button>
+			</div>
+
+			{cardKeys.size > 0 && (
+				<Group title="Cards">
+					<div className="grid grid-cols-4 gap-1.5">
+						{[...cardKeys].map(([key, card]) => (
+							<div
+								key={key}
+								className="flex items-center justify-between gap-1 rounded-lg bg-slate-900/60 px-2 py-1"
+							>
+								<span className="text-xs font-black text-slate-200">
+									{card}
+								</span>
+								<KeyCaps keys={[key.toUpperCase()]} />
+							</div>
+						))}
+					</div>
+				</Group>
+			)}
+
+			{isFacilitator && (
+				<Group title="Round">
+					<Row label="Reveal cards" keys={formatShortcut(SHORTCUTS.reveal)} />
+					<Row label="Reset votes" keys={formatShortcut(SHORTCUTS.reset)} />
+					<Row label="Next story" keys={formatShortcut(SHORTCUTS.nextStory)} />
+				</Group>
+			)}
+
+			<Group title="General">
+				<Row label="Command palette" keys={formatShortcut(SHORTCUTS.palette)} />
+				<Row
+					label="This cheat sheet"
+					keys={formatShortcut(SHORTCUTS.cheatSheet)}
+				/>
+			</Group>
+		</section>
+	</div>
+);
+
+const Group = ({
+	title,
+	children,
+}: {
+	title: string;
+	children: React.ReactNode;
+}) => (
+	<div className="space-y-1.5">
+		<h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+			{title}
+		</h3>
+		{children}
+	</div>
+);
+
+const Row = ({ label, keys }: { label: string; keys: string[] }) => (
+	<div className="flex items-center justify-between gap-3 text-xs font-bold text-slate-300">
+		{label}
+		<KeyCaps keys={keys} />
+	</div>
+);
@@ -15,6 +15,9 @@ export const env = createEnv({
 	client: {
 		VITE_APP_TITLE: z.string().min(1).optional(),
 		VITE_CONVEX_URL: z.string().url(),
+		// Needed where it is not the cloud URL's `.convex.site` twin, e.g. a
+		// local backend (`http://127.0.0.1:3211`) or a self-hosted one
+		VITE_CONVEX_SITE_URL: z.string().url().optional(),
 		VITE_CONVEX_DEPLOYMENT: z.string().optional(),
 	},
 
@@ -26,6 +29,7 @@ export const env = createEnv({
 		SERVER_URL: process.env.SERVER_URL,
 		VITE_APP_TITLE: import.meta.env.VITE_APP_TITLE,
 		VITE_CONVEX_URL: import.meta.env.VITE_CONVEX_URL,
+		VITE_CONVEX_SITE_URL: import.meta.env.VITE_CONVEX_SITE_URL,
 		VITE_CONVEX_DEPLOYMENT: import.meta.env.VITE_CONVEX_DEPLOYMENT,
 	},
 
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { type RoundPhase, isVotingPhase } from "../../convex/lib/phase";
+import { playGMSound, playRevealSound, playRoundSound } from "../lib/sounds";
+
+export type NotificationPrefs = {
+	/** Desktop notifications; needs the browser's permission as well. */
+	notifications: boolean;
+	sounds: boolean;
+};
+
+export type RoomCue = "round" | "reveal" | "gm" | "nudge";
+
+/** What the hook watches in the `getRoom` subscription. */
+export type RoomSnapshot = {
+	name: string;
+	phase: RoundPhase;
+	storyId?: string;
+	storyTitle?: string;
+	isGM: boolean;
+};
+
+const PREFS_KEY = "poker_notification_prefs";
+
+const DEFAULT_PREFS: NotificationPrefs = {
+	notifications: false,
+	sounds: false,
+};
+
+// Nudges ring in the room whether or not the tab is visible
+const CUE_SOUNDS: Record<RoomCue, (() => void) | null> = {
+	round: playRoundSound,
+	reveal: playRevealSound,
+	gm: playGMSound,
+	nudge: null,
+};
+
+function loadPrefs(): NotificationPrefs {
+	if (typeof window === "undefined") return DEFAULT_PREFS;
+	try {
+		const stored = JSON.parse(localStorage.getItem(PREFS_KEY) ?? "{}");
+		return { ...DEFAULT_PREFS, ...stored };
+	} catch {
+		return DEFAULT_PREFS;
+	}
+}
+
+const notificationsSupported = () =>
+	typeof window !== "undefined" && "Notification" in window;
+
+function cueText(cue: RoomCue, room: RoomSnapshot) {
+	switch (cue) {
+		case "round":
+			return {
+				title: "New round",
+				body: room.storyTitle
+					? `Pick a card for “${room.storyTitle}”`
+					: "Pick a card",
+			};
+		case "reveal":
+			return { title: "Cards revealed", body: room.storyTitle ?? room.name };
+		case "gm":
+			return {
+				title: "You are now the game master",
+				body: `The room ${room.name} is yours to run`,
+			};
+		case "nudge":
+			return {
+				title: "Everyone is waiting for your card",
+				body: room.storyTitle ?? room.name,
+			};
+	}
+}
+
+/**
+ * Shows a system notification. Android Chrome only allows them through a
+ * service worker and throws on `new Notification`, so that is tried first;
+ * failures are swallowed, as a missed cue must not break the room.
+ */
+async function showNotification(
+	{ title, body }: { title: string; body: string },
+	// A newer cue from the same room replaces the previous one
+	tag: string,
+) {
+	const options = { body, icon: "/logo192.png", tag };
+	try {
+		const registration =
+			"serviceWorker" in navigator
+				? await navigator.serviceWorker.getRegistration()
+				: undefined;
+		if (registration) {
+			await registration.showNotification(title, options);
+			return;
+		}
+		const notification = new Notification(title, options);
+		notification.onclick = () => {
+			window.focus();
+			notification.close();
+		};
+	} catch {
+		// Unsupported here after all; the sound cue still plays
+	}
+}
+
+/**
+ * Tells a player who has tabbed away what changed in the room: a new round,
+ * a reveal, becoming GM or being nudged. Cues only fire while the tab is
+ * hidden and both channels are opt-in, with the choice kept in this browser.
+ */
+export function useRoomNotifications(room: RoomSnapshot | null) {
+	const [prefs, setPrefs] = useState(loadPrefs);
+	const [permission, setPermission] = useState<
+		NotificationPermission | "unsupported"
+	>(() => (notificationsSupported() ? Notification.permission : "unsupported"));
+
+	const updatePrefs = useCallback(
+		async (patch: Partial<NotificationPrefs>) => {
+			const next = { ...prefs, ...patch };
+			// Turning notifications on is what asks the browser
+			if (patch.notifications && notificationsSupported()) {
+				const granted = await Notification.requestPermission();
+				setPermission(granted);
+				if (granted !== "granted") next.notifications = false;
+			}
+			setPrefs(next);
+			localStorage.setItem(PREFS_KEY, JSON.stringify(next));
+		},
+		[prefs],
+	);
+
+	// The latest values, so `notify` stays stable for effects that call it
+	const latest = useRef({ room, prefs, permission });
+	latest.current = { room, prefs, permission };
+
+	const notify = useCallback((cue: RoomCue) => {
+		const { room, prefs, permission } = latest.current;
+		if (!room || document.visibilityState !== "hidden") return;
+
+		if (prefs.sounds) CUE_SOUNDS[cue]?.();
+		if (prefs.notifications && permission === "granted") {
+			void showNotification(cueText(cue, room), `poker-${room.name}`);
+		}
+	}, []);
+
+	// Transitions in the room subscription; the first snapshot only primes
+	const previous = useRef<RoomSnapshot | null>(null);
+	useEffect(() => {
+		if (!room) return;
+		const before = previous.current;
+		previous.current = room;
+		if (!before) return;
+
+		if (!before.isGM && room.isGM) notify("gm");
+		if (!isVotingPhase(before.phase) && room.phase === "revealed") {
+			notify("reveal");
+		} else if (
+			isVotingPhase(room.phase) &&
+			(!isVotingPhase(before.phase) || before.storyId !== room.storyId)
+		) {
+			notify("round");
+		}
+	}, [room, notify]);
+
+	return { prefs, updatePrefs, permission, notify };
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+import {
+	SHORTCUTS,
+	cardForKey,
+	isTypingTarget,
+	matchesShortcut,
+} from "../lib/shortcuts";
+
+export type RoomShortcutHandlers = {
+	/** Key to card for the active deck; empty while the player can't vote. */
+	cardKeys: Map<string, string>;
+	onCard: (card: string) => void;
+	/** Left out for players who don't run the round. */
+	onReveal?: () => void;
+	onReset?: () => void;
+	onNextStory?: () => void;
+	onPalette: () => void;
+	onCheatSheet: () => void;
+};
+
+/**
+ * Listens for the room's keyboard shortcuts on the whole page. Key presses
+ * inside text fields are left alone, except for the palette chord.
+ */
+export function useRoomShortcuts(handlers: RoomShortcutHandlers) {
+	// Read at key press time so the listener is only attached once
+	const latest = useRef(handlers);
+	latest.current = handlers;
+
+	useEffect(() => {
+		const onKeyDown = (e: KeyboardEvent) => {
+			const h = latest.current;
+			if (e.repeat) return;
+			if (matchesShortcut(e, SHORTCUTS.palette)) {
+				e.preventDefault();
+				h.onPalette();
+				return;
+			}
+			if (isTypingTarget(e.target)) return;
+
+			const action = (
+				[
+					[SHORTCUTS.cheatSheet, h.onCheatSheet],
+					[SHORTCUTS.reveal, h.onReveal],
+					[SHORTCUTS.reset, h.onReset],
+					[SHORTCUTS.nextStory, h.onNextStory],
+				] as const
+			).find(([shortcut]) => matchesShortcut(e, shortcut))?.[1];
+			if (action) {
+				e.preventDefault();
+				action();
+				return;
+			}
+
+			const card = cardForKey(e, h.cardKeys);
+			if (card !== undefined) {
+				e.preventDefault();
+				h.onCard(card);
+			}
+		};
+		window.addEventListener("keydown", onKeyDown);
+		return () => window.removeEventListener("keydown", onKeyDown);
+	}, []);
+}
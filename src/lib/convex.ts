@@ -2,3 +2,12 @@ import { ConvexReactClient } from "convex/react";
 import { env } from "../env";
 
 export const convex = new ConvexReactClient(env.VITE_CONVEX_URL);
+
+/**
+ * Where the deployment serves its HTTP actions (see `convex/http.ts`). Cloud
+ * deployments derive it from the client URL; others must set it.
+ */
+export const convexSiteUrl = (
+	env.VITE_CONVEX_SITE_URL ??
+	env.VITE_CONVEX_URL.replace(/\.convex\.cloud\/?$/, ".convex.site")
+).replace(/\/$/, "");
@@ -0,0 +1,206 @@
+/**
+ * Formatters for the session export offered in the room header. They take the
+ * result of the `exportSession` query and produce a downloadable file.
+ */
+
+export type ExportedVote = {
+	nickname: string;
+	vote: string;
+	votedAt: number | null;
+	rationale: string | null;
+};
+
+export type ExportedComment = {
+	nickname: string;
+	body: string;
+	createdAt: number;
+};
+
+export type ExportedRound = {
+	storyTitle: string | null;
+	revealedAt: number;
+	average: string;
+	/** 1 for the first vote on a story, higher for re-votes. */
+	attempt: number;
+	/** The agreed estimate; null when the round was never finalized. */
+	finalEstimate: string | null;
+	/** The card closest to the average. */
+	suggested: string | null;
+	votes: ExportedVote[];
+	/** Discussion from the time the round was open and revealed. */
+	comments: ExportedComment[];
+};
+
+export type SessionExport = {
+	roomName: string;
+	anonymous: boolean;
+	exportedAt: number;
+	rounds: ExportedRound[];
+};
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+export const EXPORT_FORMATS: Record<
+	ExportFormat,
+	{ label: string; extension: string; mimeType: string }
+> = {
+	csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+	json: { label: "JSON", extension: "json", mimeType: "application/json" },
+	markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown" },
+};
+
+const roundTitle = (round: ExportedRound, index: number) => {
+	const title = round.storyTitle ?? `Round ${index + 1}`;
+	return round.attempt > 1 ? `${title} (re-vote ${round.attempt - 1})` : title;
+};
+
+const isoTime = (timestamp: number) => new Date(timestamp).toISOString();
+
+/** Rationales as "name: note" lines, or bare notes in anonymous sessions. */
+const rationaleText = (round: ExportedRound, anonymous: boolean) =>
+	round.votes
+		.flatMap((v) =>
+			v.rationale
+				? [
+						anonymous
+							? v.rationale
+							: `${v.nickname} (${v.vote}): ${v.rationale}`,
+					]
+				: [],
+		)
+		.join("\n");
+
+const commentText = (round: ExportedRound) =>
+	round.comments.map((c) => `${c.nickname}: ${c.body}`).join("\n");
+
+/**
+ * Player columns in order of first appearance. Anonymous sessions have no
+ * names, so their votes go into a single column instead.
+ */
+function voteColumns(session: SessionExport): {
+	headers: string[];
+	cells: (round: ExportedRound) => string[];
+} {
+	if (session.anonymous) {
+		return {
+			headers: ["Votes"],
+			cells: (round) => [round.votes.map((v) => v.vote).join(" ")],
+		};
+	}
+	const nicknames = [
+		...new Set(session.rounds.flatMap((r) => r.votes.map((v) => v.nickname))),
+	];
+	return {
+		headers: nicknames,
+		cells: (round) =>
+			nicknames.map(
+				(name) => round.votes.find((v) => v.nickname === name)?.vote ?? "",
+			),
+	};
+}
+
+function toRows(session: SessionExport): string[][] {
+	const columns = voteColumns(session);
+	return [
+		[
+			"Story",
+			"Revealed at",
+			"Average",
+			"Final estimate",
+			"Suggested",
+			...columns.headers,
+			"Rationales",
+			"Comments",
+		],
+		...session.rounds.map((round, index) => [
+			roundTitle(round, index),
+			isoTime(round.revealedAt),
+			round.average,
+			round.finalEstimate ?? "",
+			round.suggested ?? "",
+			...columns.cells(round),
+			rationaleText(round, session.anonymous),
+			commentText(round),
+		]),
+	];
+}
+
+const csvCell = (value: string) =>
+	/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCSV(session: SessionExport): string {
+	return toRows(session)
+		.map((row) => row.map(csvCell).join(","))
+		.join("\r\n");
+}
+
+export function toJSON(session: SessionExport): string {
+	return JSON.stringify(
+		{
+			room: session.roomName,
+			exportedAt: isoTime(session.exportedAt),
+			rounds: session.rounds.map((round, index) => ({
+				story: roundTitle(round, index),
+				revealedAt: isoTime(round.revealedAt),
+				attempt: round.attempt,
+				average: round.average,
+				finalEstimate: round.finalEstimate,
+				suggested: round.suggested,
+				votes: round.votes.map((v) => ({
+					...(session.anonymous ? {} : { player: v.nickname }),
+					vote: v.vote,
+					votedAt: v.votedAt === null ? null : isoTime(v.votedAt),
+					rationale: v.rationale,
+				})),
+				comments: round.comments.map((c) => ({
+					player: c.nickname,
+					body: c.body,
+					createdAt: isoTime(c.createdAt),
+				})),
+			})),
+		},
+		null,
+		2,
+	);
+}
+
+const markdownCell = (value: string) =>
+	value.replace(/\|/g, "\\|").replace(/\n/g, " ") || " ";
+
+export function toMarkdown(session: SessionExport): string {
+	const [header, ...rows] = toRows(session);
+	const line = (cells: string[]) =>
+		`| ${cells.map(markdownCell).join(" | ")} |`;
+	return [
+		`## ${session.roomName}`,
+		"",
+		line(header),
+		line(header.map(() => "---")),
+		...rows.map(line),
+		"",
+	].join("\n");
+}
+
+const FORMATTERS: Record<ExportFormat, (session: SessionExport) => string> = {
+	csv: toCSV,
+	json: toJSON,
+	markdown: toMarkdown,
+};
+
+/** Formats the session and hands it to the browser as a file download. */
+export function downloadSession(session: SessionExport, format: ExportFormat) {
+	const { extension, mimeType } = EXPORT_FORMATS[format];
+	const blob = new Blob([FORMATTERS[format](session)], {
+		type: `${mimeType};charset=utf-8`,
+	});
+	const slug =
+		session.roomName.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "session";
+	const date = isoTime(session.exportedAt).slice(0, 10);
+
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = `${slug}-${date}.${extension}`;
+	link.click();
+	URL.revokeObjectURL(url);
+}
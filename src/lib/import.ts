@@ -0,0 +1,179 @@
+/**
+ * Parsers for the backlog import dialog. Each turns pasted or uploaded text
+ * into stories ready for the `importStories` mutation.
+ */
+import type { StoryInput } from "../../convex/lib/stories";
+
+export type ImportFormat = "csv" | "json" | "markdown";
+
+/** Which CSV column feeds each story field; -1 means unused. */
+export type ColumnMapping = {
+	key: number;
+	title: number;
+	description: number;
+	link: number;
+};
+
+/** Thrown when text cannot be read in the chosen format. */
+export class ImportError extends Error {}
+
+/** Guesses the format from the first meaningful character or line. */
+export function detectFormat(text: string): ImportFormat {
+	const trimmed = text.trimStart();
+	if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+	if (/^\s*([-*+]|\d+[.)])\s+/.test(trimmed)) return "markdown";
+	return "csv";
+}
+
+/** Splits CSV text into rows, honouring quoted fields and escaped quotes. */
+export function parseCSV(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (quoted) throw new ImportError("A quoted CSV field is never closed");
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+const COLUMN_NAMES: Record<keyof ColumnMapping, string[]> = {
+	key: ["key", "issue key", "id", "identifier", "issue id"],
+	title: ["summary", "title", "name", "story"],
+	description: ["description", "details", "body"],
+	link: ["link", "url", "issue url"],
+};
+
+/** Maps the usual Jira and Linear export headers to story fields. */
+export function guessMapping(headers: string[]): ColumnMapping {
+	const normalized = headers.map((h) => h.trim().toLowerCase());
+	const find = (field: keyof ColumnMapping) =>
+		normalized.findIndex((h) => COLUMN_NAMES[field].includes(h));
+	const title = find("title");
+	return {
+		key: find("key"),
+		title: title === -1 ? 0 : title,
+		description: find("description"),
+		link: find("link"),
+	};
+}
+
+/** Turns CSV data rows (without the header) into stories. */
+export function storiesFromCSV(
+	rows: string[][],
+	mapping: ColumnMapping,
+): StoryInput[] {
+	const cell = (row: string[], index: number) =>
+		index === -1 ? "" : (row[index] ?? "").trim();
+
+	return rows.flatMap((row) => {
+		const title = [cell(row, mapping.key), cell(row, mapping.title)]
+			.filter(Boolean)
+			.join(" ");
+		if (!title) return [];
+		return [
+			{
+				title,
+				description: cell(row, mapping.description) || undefined,
+				link: cell(row, mapping.link) || undefined,
+			},
+		];
+	});
+}
+
+const text = (value: unknown) =>
+	typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/**
+ * Reads a JSON array of strings or of objects with a `title` (or `summary` /
+ * `name`) and optional `description` and `link` (or `url`).
+ */
+export function parseJSONStories(input: string): StoryInput[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(input);
+	} catch {
+		throw new ImportError("This is not valid JSON");
+	}
+	if (!Array.isArray(data)) {
+		throw new ImportError("Expected a JSON array of stories");
+	}
+
+	return data.flatMap((item, index) => {
+		if (typeof item === "string") {
+			return item.trim() ? [{ title: item.trim() }] : [];
+		}
+		if (typeof item !== "object" || item === null) {
+			throw new ImportError(`Item ${index + 1} is not a story`);
+		}
+		const record = item as Record<string, unknown>;
+		const key = text(record.key) ?? text(record.identifier);
+		const title =
+			text(record.title) ?? text(record.summary) ?? text(record.name);
+		if (!title) {
+			throw new ImportError(`Item ${index + 1} has no title`);
+		}
+		return [
+			{
+				title: key ? `${key} ${title}` : title,
+				description: text(record.description),
+				link: text(record.link) ?? text(record.url),
+			},
+		];
+	});
+}
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+const MARKDOWN_LINK = /\[([^\]]+)\]\((\S+?)\)/;
+const BARE_URL = /\s*<?(https?:\/\/\S+?)>?$/;
+
+/**
+ * Reads a Markdown bullet or numbered list, one story per item. A
+ * `[title](url)` link or a trailing URL becomes the story's link.
+ */
+export function parseMarkdownList(input: string): StoryInput[] {
+	return input.split(/\r?\n/).flatMap((line) => {
+		const item = LIST_ITEM.exec(line)?.[1]?.trim();
+		if (!item) return [];
+
+		const link = MARKDOWN_LINK.exec(item);
+		if (link) {
+			const title = item.replace(link[0], link[1]).trim();
+			return [{ title, link: link[2] }];
+		}
+		const url = BARE_URL.exec(item);
+		if (url && url.index > 0) {
+			return [{ title: item.slice(0, url.index).trim(), link: url[1] }];
+		}
+		return [{ title: item }];
+	});
+}
@@ -0,0 +1,83 @@
+/**
+ * Keyboard shortcuts for the room: one key per card of the active deck, plus
+ * shifted letters for the facilitator and ⌘/Ctrl chords for the overlays.
+ */
+
+export type Shortcut = { key: string; shift?: boolean; mod?: boolean };
+
+export const SHORTCUTS = {
+	reveal: { key: "r", shift: true },
+	reset: { key: "x", shift: true },
+	nextStory: { key: "n", shift: true },
+	palette: { key: "k", mod: true },
+	cheatSheet: { key: "/", mod: true },
+} satisfies Record<string, Shortcut>;
+
+// Cards whose label is not a single typeable key get these, in order
+const SPARE_KEYS = "qwertyuiopasdfghjklzxcvbnm";
+
+/**
+ * Maps a key to each card. Single-character labels are their own key (digits,
+ * `?`, T-shirt letters); the rest take the first spare letter left over.
+ */
+export function cardHotkeys(cards: string[]): Map<string, string> {
+	const keys = new Map<string, string>();
+	const pending: string[] = [];
+	for (const card of cards) {
+		const key = card.toLowerCase();
+		if (/^[\x21-\x7e]$/.test(key) && !keys.has(key)) {
+			keys.set(key, card);
+		} else {
+			pending.push(card);
+		}
+	}
+	const spare = [...SPARE_KEYS].filter((key) => !keys.has(key));
+	for (const card of pending) {
+		const key = spare.shift();
+		if (!key) break;
+		keys.set(key, card);
+	}
+	return keys;
+}
+
+const isMac = () =>
+	typeof navigator !== "undefined" &&
+	/Mac|iPhone|iPad/.test(navigator.platform);
+
+export function matchesShortcut(e: KeyboardEvent, shortcut: Shortcut) {
+	const mod = e.metaKey || e.ctrlKey;
+	return (
+		e.key.toLowerCase() === shortcut.key &&
+		mod === !!shortcut.mod &&
+		e.shiftKey === !!shortcut.shift &&
+		!e.altKey
+	);
+}
+
+/**
+ * The card picked by a bare key press, if any. Shifted letters are left to
+ * the facilitator shortcuts; shifted symbols such as `?` still count.
+ */
+export function cardForKey(e: KeyboardEvent, hotkeys: Map<string, string>) {
+	if (e.metaKey || e.ctrlKey || e.altKey) return undefined;
+	if (e.shiftKey && /^[a-z]$/i.test(e.key)) return undefined;
+	return hotkeys.get(e.key.toLowerCase());
+}
+
+/** Whether the key press belongs to a text field rather than the room. */
+export function isTypingTarget(target: EventTarget | null) {
+	return (
+		target instanceof HTMLElement &&
+		(target.isContentEditable ||
+			["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+	);
+}
+
+/** Key caps for display, e.g. `["⌘", "K"]` or `["Ctrl", "K"]`. */
+export function formatShortcut(shortcut: Shortcut): string[] {
+	return [
+		...(shortcut.mod ? [isMac() ? "⌘" : "Ctrl"] : []),
+		...(shortcut.shift ? ["⇧"] : []),
+		shortcut.key.toUpperCase(),
+	];
+}
@@ -0,0 +1,56 @@
+/**
+ * Short attention cues for the room. All of them are best effort: browsers
+ * block audio until the page has had a user gesture, and only some phones
+ * vibrate.
+ */
+
+let audioContext: AudioContext | null = null;
+
+/** Plays quick sine beeps one after another, synthesized so nothing loads. */
+function playTones(frequencies: number[], spacing = 0.15) {
+	if (typeof window === "undefined" || !("AudioContext" in window)) return;
+	audioContext ??= new AudioContext();
+	const ctx = audioContext;
+	if (ctx.state === "suspended") void ctx.resume().catch(() => {});
+
+	const start = ctx.currentTime;
+	frequencies.forEach((frequency, index) => {
+		const at = start + index * spacing;
+		const oscillator = ctx.createOscillator();
+		const gain = ctx.createGain();
+		oscillator.type = "sine";
+		oscillator.frequency.value = frequency;
+		gain.gain.setValueAtTime(0.0001, at);
+		gain.gain.exponentialRampToValueAtTime(0.2, at + 0.02);
+		gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.12);
+		oscillator.connect(gain).connect(ctx.destination);
+		oscillator.start(at);
+		oscillator.stop(at + 0.13);
+	});
+}
+
+/** Two quick rising beeps. */
+export function playNudgeSound() {
+	playTones([660, 880]);
+}
+
+/** A soft single tone for a new round. */
+export function playRoundSound() {
+	playTones([523]);
+}
+
+/** A bright three-note arpeggio for a reveal. */
+export function playRevealSound() {
+	playTones([523, 659, 784], 0.1);
+}
+
+/** A falling-then-rising fanfare for becoming game master. */
+export function playGMSound() {
+	playTones([784, 659, 988], 0.12);
+}
+
+export function vibrate(pattern: number | number[] = [120, 80, 120]) {
+	if (typeof navigator !== "undefined" && "vibrate" in navigator) {
+		navigator.vibrate(pattern);
+	}
+}
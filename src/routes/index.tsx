@@ -21,6 +21,7 @@ function LandingPage() {
 		return "";
 	});
 	const [roomId, setRoomId] = useState(initialRoomId ?? "");
+	const [asObserver, setAsObserver] = useState(false);
 	const navigate = useNavigate();
 	const nicknameRef = useRef<HTMLInputElement>(null);
 	const roomRef = useRef<HTMLInputElement>(null);
@@ -44,6 +45,7 @@ function LandingPage() {
 		navigate({
 			to: "/poker/$roomId",
 			params: { roomId: trimmedRoomId },
+			search: asObserver ? { role: "observer" } : {},
 		});
 	};
 
@@ -133,7 +135,7 @@ function LandingPage() {
 								htmlFor="roomId"
 								className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest"
 							>
-								Room
+								Room name or code
 							</label>
 							<input
 								ref={roomRef}
@@ -142,13 +144,31 @@ function LandingPage() {
 								value={roomId}
 								onChange={(e) => setRoomId(e.target.value)}
 								className="w-full bg-[#070a13] text-white rounded-xl border border-slate-800 focus:border-indigo-500 px-4 py-3.5 h-12 transition-colors outline-none placeholder-slate-700 text-sm font-medium no-tap-highlight"
-								placeholder="e.g. Sprint-42"
+								placeholder="e.g. Sprint-42 or K7M2QX"
 								autoComplete="off"
 								autoCapitalize="none"
 								enterKeyHint="go"
 							/>
 						</div>
 
+						{/* Role */}
+						<label className="flex items-center justify-between gap-3 cursor-pointer select-none no-tap-highlight">
+							<span>
+								<span className="block text-xs font-bold text-slate-400">
+									Join as observer
+								</span>
+								<span className="block text-[11px] text-slate-600 leading-snug">
+									Watch the session without voting
+								</span>
+							</span>
+							<input
+								type="checkbox"
+								checked={asObserver}
+								onChange={(e) => setAsObserver(e.target.checked)}
+								className="w-4 h-4 accent-indigo-500 shrink-0"
+							/>
+						</label>
+
 						{/* Submit */}
 						<button
 							type="submit"
@@ -161,7 +181,7 @@ function LandingPage() {
 				</div>
 
 				<p className="text-center text-slate-700 text-xs mt-4">
-					A new room is created automatically
+					A new room is created if the name is free
 				</p>
 			</div>
 		</div>
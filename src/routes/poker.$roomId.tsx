@@ -1,18 +1,105 @@
 import { createFileRoute } from "@tanstack/react-router";
-import { useMutation, useQuery } from "convex/react";
-import { Check, Copy, Eye, LogOut, RotateCcw } from "lucide-react";
-import { useEffect, useRef, useState } from "react";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import {
+	BellRing,
+	Check,
+	Copy,
+	Crown,
+	Eye,
+	Lock,
+	LogOut,
+	Settings,
+	UserRound,
+	Vote,
+} from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { z } from "zod";
 import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+	analyzeVotes,
+	buildDistribution,
+	calculateAverage,
+} from "../../convex/lib/analytics";
+import {
+	canModerate,
+	isFacilitator as canFacilitate,
+} from "../../convex/lib/auth";
+import { DECK_PRESETS, type Deck, resolveDeck } from "../../convex/lib/deck";
+import { getPokerError } from "../../convex/lib/errors";
+import { type RoundPhase, isVotingPhase } from "../../convex/lib/phase";
+import {
+	HEARTBEAT_INTERVAL_MS,
+	presenceStatus,
+} from "../../convex/lib/presence";
+import { type PlayerRole, isVoter } from "../../convex/lib/roles";
+import { slugify } from "../../convex/lib/rooms";
+import type { RoomSettings, SettingsPatch } from "../../convex/lib/settings";
+import {
+	MAX_IMPORT_BATCH,
+	type StoryInput,
+	nextPendingStory,
+} from "../../convex/lib/stories";
+import { BacklogPanel } from "../components/poker/BacklogPanel";
+import type { Command } from "../components/poker/CommandPalette";
+import { CommentThread } from "../components/poker/CommentThread";
+import { DeckPicker } from "../components/poker/DeckPicker";
+import { ExportMenu } from "../components/poker/ExportMenu";
+import { NotificationMenu } from "../components/poker/NotificationMenu";
+import { PhaseControls } from "../components/poker/PhaseControls";
+import { PlayerMenu } from "../components/poker/PlayerMenu";
+import { PresenceDot } from "../components/poker/PresenceDot";
+import { RationaleField } from "../components/poker/RationaleField";
+import { ReactionBar, ReactionBurst } from "../components/poker/Reactions";
+import { RoomShortcuts } from "../components/poker/RoomShortcuts";
+import {
+	ResultBanner,
+	type VoteRationale,
+} from "../components/poker/ResultBanner";
+import { TimerBadge, TimerPanel } from "../components/poker/RoundTimer";
+import {
+	PreviousAttempts,
+	RoundHistory,
+} from "../components/poker/RoundHistory";
+import { SettingsSheet } from "../components/poker/SettingsSheet";
+import { useRoomNotifications } from "../hooks/useRoomNotifications";
+import { convexSiteUrl } from "../lib/convex";
+import {
+	EXPORT_FORMATS,
+	type ExportFormat,
+	type SessionExport,
+	downloadSession,
+} from "../lib/export";
+import { SHORTCUTS } from "../lib/shortcuts";
+import { playNudgeSound, vibrate } from "../lib/sounds";
+
+/** Why joining failed, as shown on the landing page. */
+const JOIN_ERRORS = {
+	taken: "Nickname is already taken",
+	passcode: "Wrong passcode for this room",
+	kicked: "A facilitator removed you from the room",
+	replaced: "You continued in this room on another device",
+	roomName: "That room name cannot be used",
+};
+
+/** Where a room's session token is kept, keyed by its canonical slug. */
+const sessionKey = (slug: string) => `poker_session_${slug}`;
+
+/** A player as returned by `getRoom`, with votes hidden until reveal. */
+type RoomPlayer = Omit<Doc<"players">, "votedAt"> & { hasVoted: boolean };
+
+const roomSearchSchema = z.object({
+	role: z.enum(["voter", "observer"]).optional(),
+});
 
 export const Route = createFileRoute("/poker/$roomId")({
 	component: PokerRoom,
+	validateSearch: roomSearchSchema,
 });
 
-const FIBONACCI_SEQUENCE = ["0", "1", "2", "3", "5", "8", "13", "21"];
-const SPECIAL_CARDS = ["?", "☕"];
-
 function PokerRoom() {
 	const { roomId: roomName } = Route.useParams();
+	const { role } = Route.useSearch();
 	const [nickname, setNickname] = useState<string | null>(() => {
 		if (typeof window !== "undefined") {
 			return localStorage.getItem("poker_nickname");
@@ -20,25 +107,82 @@ function PokerRoom() {
 		return null;
 	});
 
-	const roomData = useQuery(api.poker.getRoom, { name: roomName });
+	// The secret that identifies us to the server; survives refreshes so we
+	// rejoin as the same player
+	const [sessionToken, setSessionToken] = useState<string | null>(() => {
+		if (typeof window !== "undefined") {
+			return localStorage.getItem(sessionKey(slugify(roomName)));
+		}
+		return null;
+	});
+	const [playerId, setPlayerId] = useState<Id<"players"> | null>(null);
+
+	const roomData = useQuery(api.poker.getRoom, {
+		name: roomName,
+		sessionToken: sessionToken || undefined,
+	});
+	// Everything beyond getRoom is for members only
+	const memberArgs =
+		roomData?._id && sessionToken
+			? { roomId: roomData._id, sessionToken }
+			: "skip";
+	const rounds = useQuery(api.poker.getRounds, memberArgs);
+	const presence = useQuery(api.poker.getPresence, memberArgs);
+	const comments = useQuery(api.poker.getComments, memberArgs);
+	const events = useQuery(api.poker.getEvents, memberArgs);
+	const convex = useConvex();
 	const joinRoom = useMutation(api.poker.joinRoom);
+	const reclaimPlayer = useMutation(api.poker.reclaimPlayer);
 	const voteMutation = useMutation(api.poker.vote);
+	const setRationaleMutation = useMutation(api.poker.setRationale);
+	const addCommentMutation = useMutation(api.poker.addComment);
+	const reactMutation = useMutation(api.poker.react);
+	const nudgeMutation = useMutation(api.poker.nudge);
+	const setRoleMutation = useMutation(api.poker.setRole);
 	const revealMutation = useMutation(api.poker.reveal);
 	const resetMutation = useMutation(api.poker.reset);
+	const startRevoteMutation = useMutation(api.poker.startRevote);
+	const finalizeRoundMutation = useMutation(api.poker.finalizeRound);
 	const heartbeatMutation = useMutation(api.poker.heartbeat);
-	const cleanOldPlayersMutation = useMutation(api.poker.cleanOldPlayers);
-	const setMaxFibMutation = useMutation(api.poker.setMaxFib);
+	const setDeckMutation = useMutation(api.poker.setDeck);
 	const leaveRoomMutation = useMutation(api.poker.leaveRoom);
+	const addStoryMutation = useMutation(api.poker.addStory);
+	const importStoriesMutation = useMutation(api.poker.importStories);
+	const moveStoryMutation = useMutation(api.poker.moveStory);
+	const selectStoryMutation = useMutation(api.poker.selectStory);
+	const skipStoryMutation = useMutation(api.poker.skipStory);
+	const startTimerMutation = useMutation(api.poker.startTimer);
+	const pauseTimerMutation = useMutation(api.poker.pauseTimer);
+	const resumeTimerMutation = useMutation(api.poker.resumeTimer);
+	const extendTimerMutation = useMutation(api.poker.extendTimer);
+	const stopTimerMutation = useMutation(api.poker.stopTimer);
+	const updateSettingsMutation = useMutation(api.poker.updateSettings);
+	const setPasscodeMutation = useMutation(api.poker.setPasscode);
+	const renameRoomMutation = useMutation(api.poker.renameRoom);
+	const transferGMMutation = useMutation(api.poker.transferGM);
+	const setBackupGMMutation = useMutation(api.poker.setBackupGM);
+	const setCoFacilitatorMutation = useMutation(api.poker.setCoFacilitator);
+	const kickPlayerMutation = useMutation(api.poker.kickPlayer);
+	const forceObserverMutation = useMutation(api.poker.forceObserver);
 
-	const [playerId, setPlayerId] = useState<any>(() => {
-		if (typeof window !== "undefined") {
-			return localStorage.getItem(`poker_playerId_${roomName}`);
-		}
-		return null;
-	});
 	const [joined, setJoined] = useState(false);
 	const [joinError, setJoinError] = useState<string | null>(null);
-	const [copied, setCopied] = useState(false);
+	const [passcode, setPasscode] = useState<string | undefined>();
+	const [needsPasscode, setNeedsPasscode] = useState(false);
+	// Set when our nickname belongs to a player whose device went quiet
+	const [reclaim, setReclaim] = useState<"ask" | "reclaim" | "new" | null>(
+		null,
+	);
+	// Facilitator seats also need the code shown on their other device
+	const [reclaimCode, setReclaimCode] = useState<string | undefined>();
+	const [reclaimCodeError, setReclaimCodeError] = useState<string | null>(null);
+	const [copied, setCopied] = useState<"link" | "code" | null>(null);
+	const [actionError, setActionError] = useState<string | null>(null);
+	const [becameGM, setBecameGM] = useState(false);
+	const [nudged, setNudged] = useState(false);
+	const [now, setNow] = useState(() => Date.now());
+	const [clockOffset, setClockOffset] = useState(0);
+	const [settingsOpen, setSettingsOpen] = useState(false);
 	const trayRef = useRef<HTMLDivElement>(null);
 	const [trayHeight, setTrayHeight] = useState(160);
 
@@ -54,63 +198,393 @@ function PokerRoom() {
 		return () => obs.disconnect();
 	}, []);
 
+	// Links and join codes resolve to the same room, whose slug keys storage
+	const roomSlug: string = roomData?.slug ?? slugify(roomName);
+
 	useEffect(() => {
-		if (!joined && roomData !== undefined && nickname) {
-			joinRoom({ roomName, nickname, playerId: playerId || undefined })
+		if (
+			!joined &&
+			roomData !== undefined &&
+			nickname &&
+			!needsPasscode &&
+			reclaim !== "ask"
+		) {
+			const join =
+				reclaim === "reclaim"
+					? reclaimPlayer({ roomName, nickname, passcode, reclaimCode })
+					: joinRoom({
+							roomName,
+							nickname,
+							sessionToken:
+								sessionToken ||
+								localStorage.getItem(sessionKey(roomSlug)) ||
+								undefined,
+							role,
+							passcode,
+							asNewPlayer: reclaim === "new",
+						});
+			join
 				.then((result) => {
 					if (!result) return;
-					const { playerId: newPlayerId } = result;
-					setPlayerId(newPlayerId);
+					setPlayerId(result.playerId);
+					setSessionToken(result.sessionToken);
 					setJoined(true);
-					localStorage.setItem(`poker_playerId_${roomName}`, newPlayerId);
+					localStorage.setItem(sessionKey(result.slug), result.sessionToken);
+					// Player ids are no longer trusted as credentials
+					localStorage.removeItem(`poker_playerId_${roomName}`);
+					// Settle on the canonical URL, e.g. after joining by code
+					if (result.slug !== roomName) {
+						navigate({
+							to: "/poker/$roomId",
+							params: { roomId: result.slug },
+							search: true,
+							replace: true,
+						});
+					}
 				})
 				.catch((err) => {
-					if (err?.message?.includes("Nickname is already taken")) {
-						setJoinError("taken");
+					const code = getPokerError(err)?.code;
+					if (code === "PASSCODE_REQUIRED") {
+						setNeedsPasscode(true);
+					} else if (code === "NICKNAME_RECLAIMABLE") {
+						setReclaim("ask");
+					} else if (
+						code === "RECLAIM_CODE_REQUIRED" ||
+						code === "WRONG_RECLAIM_CODE"
+					) {
+						setReclaimCode("");
+						setReclaimCodeError(
+							code === "WRONG_RECLAIM_CODE"
+								? (getPokerError(err)?.message ?? null)
+								: null,
+						);
+						setReclaim("ask");
+					} else if (reclaim === "reclaim") {
+						// They came back in the meantime; join next to them
+						setReclaim("new");
+					} else if (code === "WRONG_PASSCODE") {
+						setJoinError(JOIN_ERRORS.passcode);
+					} else if (code === "INVALID_ROOM_NAME") {
+						setJoinError(getPokerError(err)?.message ?? JOIN_ERRORS.roomName);
+					} else if (code === "KICKED") {
+						localStorage.removeItem(sessionKey(roomSlug));
+						setJoinError(getPokerError(err)?.message ?? JOIN_ERRORS.kicked);
+					} else if (err?.message?.includes("Nickname is already taken")) {
+						setJoinError(JOIN_ERRORS.taken);
 					} else {
-						// Clear a potentially stale/invalid player ID so the next
+						// Clear a potentially stale/invalid session so the next
 						// attempt starts fresh instead of crashing again.
-						localStorage.removeItem(`poker_playerId_${roomName}`);
-						setPlayerId(null);
+						localStorage.removeItem(sessionKey(roomSlug));
+						setSessionToken(null);
 					}
 				});
 		}
-	}, [joined, roomData, roomName, nickname, joinRoom, playerId]);
+	}, [
+		joined,
+		roomData,
+		roomName,
+		roomSlug,
+		navigate,
+		nickname,
+		joinRoom,
+		reclaimPlayer,
+		reclaim,
+		reclaimCode,
+		sessionToken,
+		role,
+		passcode,
+		needsPasscode,
+	]);
 
 	useEffect(() => {
-		if (joinError === "taken") {
+		if (joinError) {
 			navigate({
 				to: "/",
-				search: { roomId: roomName, error: "Nickname is already taken" },
+				search: { roomId: roomName, error: joinError },
 			});
 		}
 	}, [joinError, navigate, roomName]);
 
+	// A facilitator removed us: forget the session and go back home
+	const kickedReason = roomData?.kickedReason;
+	useEffect(() => {
+		if (kickedReason) {
+			localStorage.removeItem(sessionKey(roomSlug));
+			setSessionToken(null);
+			setJoinError(kickedReason);
+		}
+	}, [kickedReason, roomSlug]);
+
+	// Our seat was taken over from another device, which signed this one out
+	const sessionReplaced = roomData?.sessionReplaced === true;
+	useEffect(() => {
+		if (sessionReplaced) {
+			localStorage.removeItem(sessionKey(roomSlug));
+			setSessionToken(null);
+			setJoinError(JOIN_ERRORS.replaced);
+		}
+	}, [sessionReplaced, roomSlug]);
+
+	// Each heartbeat also tells us how far the server's clock is ahead of
+	// ours, so every countdown agrees
 	useEffect(() => {
-		if (playerId && roomData?._id) {
-			const interval = setInterval(() => {
-				heartbeatMutation({ playerId: playerId as any });
-				cleanOldPlayersMutation({ roomId: roomData._id });
-			}, 10000);
+		if (sessionToken && joined && roomData?._id) {
+			const ping = async () => {
+				const sentAt = Date.now();
+				const { serverTime, seated } = await heartbeatMutation({
+					sessionToken,
+				});
+				if (!seated) {
+					setJoined(false);
+					return;
+				}
+				// Assume the server answered halfway through the round trip
+				setClockOffset(serverTime - (sentAt + Date.now()) / 2);
+			};
+			void ping();
+			const interval = setInterval(ping, HEARTBEAT_INTERVAL_MS);
 			return () => clearInterval(interval);
 		}
-	}, [playerId, roomData?._id, heartbeatMutation, cleanOldPlayersMutation]);
+	}, [sessionToken, joined, roomData?._id, heartbeatMutation]);
+
+	// Closing the tab leaves at once; the server holds the seat briefly in
+	// case this is a refresh. A page restored from the back/forward cache
+	// pings straight away to take it back.
+	useEffect(() => {
+		if (!sessionToken) return;
+		const onPageHide = () => {
+			navigator.sendBeacon(
+				`${convexSiteUrl}/leave`,
+				JSON.stringify({ sessionToken }),
+			);
+		};
+		const onPageShow = (e: PageTransitionEvent) => {
+			if (!e.persisted) return;
+			// Past the grace period the seat is gone, so join afresh
+			heartbeatMutation({ sessionToken }).then(({ seated }) => {
+				if (!seated) setJoined(false);
+			});
+		};
+		window.addEventListener("pagehide", onPageHide);
+		window.addEventListener("pageshow", onPageShow);
+		return () => {
+			window.removeEventListener("pagehide", onPageHide);
+			window.removeEventListener("pageshow", onPageShow);
+		};
+	}, [sessionToken, heartbeatMutation]);
+
+	// Presence rows only change on ping, so re-derive idle/offline locally
+	useEffect(() => {
+		const interval = setInterval(() => setNow(Date.now()), 5000);
+		return () => clearInterval(interval);
+	}, []);
+
+	// Tell a player when the GM role lands on them mid-session
+	const selfIsGM: boolean | undefined = roomData?.players?.find(
+		(p: RoomPlayer) => p._id === playerId,
+	)?.isGM;
+	const wasGM = useRef(selfIsGM);
+	useEffect(() => {
+		if (selfIsGM === undefined) return;
+		if (wasGM.current === false && selfIsGM) setBecameGM(true);
+		if (!selfIsGM) setBecameGM(false);
+		wasGM.current = selfIsGM;
+	}, [selfIsGM]);
+
+	// Round changes reach players who have tabbed away, if they opted in
+	const currentStoryId: Id<"stories"> | undefined = roomData?.currentStoryId;
+	const currentStoryTitle: string | undefined = roomData?.stories?.find(
+		(story: Doc<"stories">) => story._id === currentStoryId,
+	)?.title;
+	const roomPhaseNow: RoundPhase | undefined = roomData?.phase;
+	const displayName: string | undefined = roomData?.name;
+	const notificationSnapshot = useMemo(
+		() =>
+			selfIsGM === undefined || !roomPhaseNow || !displayName
+				? null
+				: {
+						name: displayName,
+						phase: roomPhaseNow,
+						storyId: currentStoryId,
+						storyTitle: currentStoryTitle,
+						isGM: selfIsGM,
+					},
+		[selfIsGM, roomPhaseNow, displayName, currentStoryId, currentStoryTitle],
+	);
+	const {
+		prefs: notificationPrefs,
+		updatePrefs: updateNotificationPrefs,
+		permission: notificationPermission,
+		notify,
+	} = useRoomNotifications(notificationSnapshot);
+
+	// Each nudge aimed at us plays once, with a sound and a buzz
+	const seenNudges = useRef(new Set<Id<"events">>());
+	useEffect(() => {
+		if (!events || !playerId) return;
+		const fresh = events.filter(
+			(event: Doc<"events">) =>
+				event.kind === "nudge" &&
+				event.targetPlayerId === playerId &&
+				!seenNudges.current.has(event._id),
+		);
+		if (fresh.length === 0) return;
+		for (const event of fresh) seenNudges.current.add(event._id);
+		playNudgeSound();
+		vibrate();
+		setNudged(true);
+		notify("nudge");
+	}, [events, playerId, notify]);
+
+	// Picking a card answers the nudge
+	const selfHasVoted: boolean | undefined = roomData?.players?.find(
+		(p: RoomPlayer) => p._id === playerId,
+	)?.hasVoted;
+	useEffect(() => {
+		if (selfHasVoted) setNudged(false);
+	}, [selfHasVoted]);
+
+	useEffect(() => {
+		if (!actionError) return;
+		const timeout = setTimeout(() => setActionError(null), 4000);
+		return () => clearTimeout(timeout);
+	}, [actionError]);
+
+	/** Runs a mutation, surfacing server-side rejections in a toast. */
+	const runAction = (action: Promise<unknown>) => {
+		action.catch((err) => {
+			setActionError(getPokerError(err)?.message ?? "Something went wrong");
+		});
+	};
 
 	const handleVote = (vote: string) => {
-		if (playerId) voteMutation({ playerId: playerId as any, vote });
+		if (sessionToken) runAction(voteMutation({ sessionToken, vote }));
+	};
+
+	const handleSetRationale = (rationale: string) => {
+		if (sessionToken)
+			runAction(setRationaleMutation({ sessionToken, rationale }));
+	};
+
+	const handleAddComment = async (body: string) => {
+		if (!sessionToken) return;
+		try {
+			await addCommentMutation({ sessionToken, body });
+		} catch (err) {
+			setActionError(getPokerError(err)?.message ?? "Comment failed");
+			throw err;
+		}
+	};
+
+	const handleReact = (emoji: string) => {
+		if (sessionToken) runAction(reactMutation({ sessionToken, emoji }));
+	};
+
+	const handleNudge = () => {
+		if (sessionToken) runAction(nudgeMutation({ sessionToken }));
+	};
+
+	const handleSetRole = (newRole: PlayerRole) => {
+		if (sessionToken)
+			runAction(setRoleMutation({ sessionToken, role: newRole }));
 	};
 
 	const handleReveal = () => {
-		if (roomData?._id) revealMutation({ roomId: roomData._id, revealed: true });
+		if (sessionToken)
+			runAction(revealMutation({ sessionToken, revealed: true }));
+	};
+
+	const handleRevote = () => {
+		if (sessionToken) runAction(startRevoteMutation({ sessionToken }));
+	};
+
+	const handleFinalize = (estimate: string) => {
+		if (sessionToken)
+			runAction(finalizeRoundMutation({ sessionToken, estimate }));
 	};
 
 	const handleReset = () => {
-		if (roomData?._id) resetMutation({ roomId: roomData._id });
+		if (sessionToken) runAction(resetMutation({ sessionToken }));
+	};
+
+	const handleSetDeck = (deck: Deck) => {
+		if (sessionToken && isFacilitator)
+			runAction(setDeckMutation({ sessionToken, deck }));
+	};
+
+	const handleExport = (format: ExportFormat) => {
+		if (!roomData || !sessionToken) return;
+		runAction(
+			convex
+				.query(api.poker.exportSession, {
+					roomId: roomData._id,
+					sessionToken,
+				})
+				.then((session: SessionExport) => downloadSession(session, format)),
+		);
+	};
+
+	const handleUpdateSettings = (patch: SettingsPatch) => {
+		if (sessionToken && isGM) {
+			runAction(updateSettingsMutation({ sessionToken, settings: patch }));
+		}
+	};
+
+	const handleStartTimer = (durationMs: number, autoReveal: boolean) => {
+		if (sessionToken) {
+			runAction(startTimerMutation({ sessionToken, durationMs, autoReveal }));
+		}
 	};
 
-	const handleSetMaxFib = (max: number) => {
-		if (roomData?._id && isGM)
-			setMaxFibMutation({ roomId: roomData._id, maxFib: max });
+	const handlePauseTimer = () => {
+		if (sessionToken) runAction(pauseTimerMutation({ sessionToken }));
+	};
+
+	const handleResumeTimer = () => {
+		if (sessionToken) runAction(resumeTimerMutation({ sessionToken }));
+	};
+
+	const handleExtendTimer = () => {
+		if (sessionToken) runAction(extendTimerMutation({ sessionToken }));
+	};
+
+	const handleStopTimer = () => {
+		if (sessionToken) runAction(stopTimerMutation({ sessionToken }));
+	};
+
+	const handleAddStory = (story: StoryInput) => {
+		if (sessionToken) runAction(addStoryMutation({ sessionToken, ...story }));
+	};
+
+	const handleImportStories = async (stories: StoryInput[]) => {
+		if (!sessionToken) return;
+		try {
+			for (let i = 0; i < stories.length; i += MAX_IMPORT_BATCH) {
+				await importStoriesMutation({
+					sessionToken,
+					stories: stories.slice(i, i + MAX_IMPORT_BATCH),
+				});
+			}
+		} catch (err) {
+			setActionError(getPokerError(err)?.message ?? "Import failed");
+			throw err;
+		}
+	};
+
+	const handleMoveStory = (
+		storyId: Id<"stories">,
+		direction: "up" | "down",
+	) => {
+		if (sessionToken)
+			runAction(moveStoryMutation({ sessionToken, storyId, direction }));
+	};
+
+	const handleSelectStory = (storyId: Id<"stories">) => {
+		if (sessionToken) runAction(selectStoryMutation({ sessionToken, storyId }));
+	};
+
+	const handleSkipStory = (storyId: Id<"stories">) => {
+		if (sessionToken) runAction(skipStoryMutation({ sessionToken, storyId }));
 	};
 
 	const handleSetNickname = (e: React.FormEvent<HTMLFormElement>) => {
@@ -123,16 +597,83 @@ function PokerRoom() {
 		}
 	};
 
+	const handleSubmitPasscode = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const formData = new FormData(e.currentTarget);
+		const entered = (formData.get("passcode") as string).trim();
+		if (entered) {
+			setPasscode(entered);
+			setNeedsPasscode(false);
+		}
+	};
+
+	const handleSubmitReclaimCode = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const formData = new FormData(e.currentTarget);
+		const entered = (formData.get("reclaimCode") as string).trim();
+		if (entered) {
+			setReclaimCode(entered);
+			setReclaim("reclaim");
+		}
+	};
+
+	const handleSetPasscode = (newPasscode: string | null) => {
+		if (sessionToken && isGM) {
+			runAction(setPasscodeMutation({ sessionToken, passcode: newPasscode }));
+		}
+	};
+
+	const handleTransferGM = (targetId: Id<"players">) => {
+		if (sessionToken)
+			runAction(transferGMMutation({ sessionToken, playerId: targetId }));
+	};
+
+	const handleSetBackupGM = (targetId: Id<"players"> | null) => {
+		if (sessionToken && isGM)
+			runAction(setBackupGMMutation({ sessionToken, playerId: targetId }));
+	};
+
+	const handleSetCoFacilitator = (
+		targetId: Id<"players">,
+		enabled: boolean,
+	) => {
+		if (sessionToken)
+			runAction(
+				setCoFacilitatorMutation({ sessionToken, playerId: targetId, enabled }),
+			);
+	};
+
+	const handleKickPlayer = (targetId: Id<"players">, reason: string) => {
+		if (sessionToken)
+			runAction(
+				kickPlayerMutation({
+					sessionToken,
+					playerId: targetId,
+					reason: reason || undefined,
+				}),
+			);
+	};
+
+	const handleForceObserver = (targetId: Id<"players">) => {
+		if (sessionToken)
+			runAction(forceObserverMutation({ sessionToken, playerId: targetId }));
+	};
+
+	const handleRenameRoom = (name: string) => {
+		if (sessionToken && isGM)
+			runAction(renameRoomMutation({ sessionToken, name }));
+	};
+
 	const handleExitRoom = async () => {
-		if (playerId) await leaveRoomMutation({ playerId: playerId as any });
-		localStorage.removeItem(`poker_playerId_${roomName}`);
+		if (sessionToken) await leaveRoomMutation({ sessionToken });
+		localStorage.removeItem(sessionKey(roomSlug));
 		navigate({ to: "/" });
 	};
 
-	const copyRoomLink = () => {
-		navigator.clipboard.writeText(window.location.href);
-		setCopied(true);
-		setTimeout(() => setCopied(false), 2000);
+	const copyToClipboard = (what: "link" | "code", text: string) => {
+		navigator.clipboard.writeText(text);
+		setCopied(what);
+		setTimeout(() => setCopied(null), 2000);
 	};
 
 	// ── Nickname entry ──────────────────────────────────────────────────────────
@@ -153,7 +694,10 @@ function PokerRoom() {
 						</div>
 					</div>
 					<h2 className="text-lg font-black text-white text-center mb-1">
-						Join <span className="text-indigo-400">{roomName}</span>
+						Join{" "}
+						<span className="text-indigo-400">
+							{roomData?.name ?? roomName}
+						</span>
 					</h2>
 					<p className="text-slate-600 text-xs text-center mb-6">
 						Enter your name to continue
@@ -179,8 +723,118 @@ function PokerRoom() {
 		);
 	}
 
+	// ── Passcode entry ──────────────────────────────────────────────────────────
+	if (needsPasscode) {
+		return (
+			<div className="min-h-screen bg-[#070a13] flex items-center justify-center p-5 pt-safe pb-safe">
+				<div className="relative bg-[#0d1120] border border-slate-800/70 p-6 rounded-2xl shadow-2xl w-full max-w-sm">
+					<div className="flex justify-center mb-5">
+						<div className="bg-gradient-to-br from-indigo-500 to-violet-600 p-3 rounded-xl shadow-lg">
+							<Lock className="w-6 h-6 text-white" />
+						</div>
+					</div>
+					<h2 className="text-lg font-black text-white text-center mb-1">
+						<span className="text-indigo-400">
+							{roomData?.name ?? roomName}
+						</span>{" "}
+						is private
+					</h2>
+					<p className="text-slate-600 text-xs text-center mb-6">
+						Ask the game master for the passcode
+					</p>
+					<form onSubmit={handleSubmitPasscode} className="space-y-3">
+						<input
+							type="password"
+							name="passcode"
+							autoComplete="off"
+							className="w-full h-12 bg-[#070a13] text-white rounded-xl border border-slate-800 focus:border-indigo-500 px-4 transition-colors outline-none placeholder-slate-700 text-sm font-medium no-tap-highlight"
+							placeholder="Passcode"
+							required
+						/>
+						<button
+							type="submit"
+							className="w-full h-12 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all active:scale-[0.97] text-sm no-tap-highlight"
+						>
+							Unlock
+						</button>
+					</form>
+				</div>
+			</div>
+		);
+	}
+
+	// ── Identity reclaim ────────────────────────────────────────────────────────
+	if (reclaim === "ask") {
+		return (
+			<div className="min-h-screen bg-[#070a13] flex items-center justify-center p-5 pt-safe pb-safe">
+				<div className="relative bg-[#0d1120] border border-slate-800/70 p-6 rounded-2xl shadow-2xl w-full max-w-sm">
+					<div className="flex justify-center mb-5">
+						<div className="bg-gradient-to-br from-indigo-500 to-violet-600 p-3 rounded-xl shadow-lg">
+							<UserRound className="w-6 h-6 text-white" />
+						</div>
+					</div>
+					<h2 className="text-lg font-black text-white text-center mb-1">
+						Is this you, <span className="text-indigo-400">{nickname}</span>?
+					</h2>
+					<p className="text-slate-600 text-xs text-center mb-6">
+						Someone called {nickname} is in this room but has not been seen
+						lately. Continue as them to keep their seat and vote, for example
+						after switching devices.
+					</p>
+					<div className="space-y-3">
+						{reclaimCode === undefined ? (
+							<button
+								type="button"
+								onClick={() => setReclaim("reclaim")}
+								className="w-full h-12 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all active:scale-[0.97] text-sm no-tap-highlight"
+							>
+								Continue as {nickname}
+							</button>
+						) : (
+							<form onSubmit={handleSubmitReclaimCode} className="space-y-3">
+								<p className="text-slate-400 text-xs text-center">
+									{nickname} runs this session. Enter the reclaim code shown in
+									the room on their other device.
+								</p>
+								<input
+									type="text"
+									name="reclaimCode"
+									autoComplete="off"
+									autoCapitalize="characters"
+									aria-label="Reclaim code"
+									className="w-full h-12 bg-[#070a13] text-white rounded-xl border border-slate-800 focus:border-indigo-500 px-4 transition-colors outline-none placeholder-slate-700 text-sm font-bold tracking-widest uppercase no-tap-highlight"
+									placeholder="Reclaim code"
+									required
+								/>
+								{reclaimCodeError && (
+									<p className="text-[11px] text-red-400 text-center">
+										{reclaimCodeError}
+									</p>
+								)}
+								<button
+									type="submit"
+									className="w-full h-12 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all active:scale-[0.97] text-sm no-tap-highlight"
+								>
+									Continue as {nickname}
+								</button>
+							</form>
+						)}
+						<button
+							type="button"
+							onClick={() => setReclaim("new")}
+							className="w-full h-12 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition-all active:scale-[0.97] text-sm no-tap-highlight"
+						>
+							Join as a new player
+						</button>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
 	// ── Loading ─────────────────────────────────────────────────────────────────
-	if (roomData === undefined || !joined) {
+	// A locked room stays hidden until getRoom sees us as a member
+	if (roomData === undefined || !joined || roomData?.locked) {
 		return (
 			<div className="min-h-screen bg-[#070a13] flex items-center justify-center">
 				<div className="text-center space-y-4">
@@ -213,29 +867,319 @@ function PokerRoom() {
 	}
 
 	// ── Derived state ───────────────────────────────────────────────────────────
-	const players = roomData.players;
+	const players: RoomPlayer[] = roomData.players;
+	// Observers are listed apart and never count toward progress or results
+	const voters = players.filter(isVoter);
+	const observers = players.filter((p) => !isVoter(p));
 	const self = players.find((p) => p._id === playerId);
 	const isGM = self?.isGM ?? false;
+	// Co-facilitators run the round too; settings stay with the GM
+	const isFacilitator = self ? canFacilitate(self) : false;
+	const isObserver = self ? !isVoter(self) : false;
 	const myVote = self?.vote ?? null;
 	const revealed = roomData.revealed;
-	const maxFib = roomData.maxFib ?? 8;
-	const votedCount = players.filter((p) => p.vote).length;
-	const allVoted = players.length > 0 && votedCount === players.length;
+	const settings: RoomSettings = roomData.settings;
+	const canReveal = isFacilitator || settings.revealPolicy === "anyone";
+	const phase: RoundPhase = roomData.phase;
+	const canChangeVote =
+		isVotingPhase(phase) ||
+		(phase === "revealed" && settings.allowVoteChangeAfterReveal);
+	const cards = resolveDeck(roomData);
+	// Voters who closed their tab are not waited for
+	const activeVoters = voters.filter(
+		(p) => p.leftAt === undefined || p.hasVoted,
+	);
+	const votedCount = voters.filter((p) => p.hasVoted).length;
+	const allVoted =
+		activeVoters.length > 0 && votedCount === activeVoters.length;
+
+	const allCards = cards.map((card) => card.label);
 
-	const fibCards = FIBONACCI_SEQUENCE.filter((n) => Number(n) <= maxFib);
-	const allCards = [...fibCards, ...SPECIAL_CARDS];
+	// Revealed cards; anonymous rooms only get the bare list of votes
+	const anonymousVotes: string[] | null = roomData.anonymousVotes;
+	const revealedVotes = anonymousVotes
+		? anonymousVotes.map((vote, index) => ({
+				playerId: String(index),
+				nickname: "",
+				vote,
+			}))
+		: voters.flatMap((p) =>
+				p.vote === null
+					? []
+					: [{ playerId: p._id, nickname: p.nickname, vote: p.vote }],
+			);
+	const anonymousRationales: string[] | null = roomData.anonymousRationales;
+	const rationales: VoteRationale[] = anonymousRationales
+		? anonymousRationales.map((rationale) => ({
+				nickname: "",
+				vote: "",
+				rationale,
+			}))
+		: voters.flatMap((p) =>
+				p.vote === null || !p.rationale
+					? []
+					: [{ nickname: p.nickname, vote: p.vote, rationale: p.rationale }],
+			);
 
 	// Vote distribution for reveal screen
 	const voteDistribution = revealed
-		? buildDistribution(players.map((p) => p.vote))
+		? buildDistribution(
+				revealedVotes.map((entry) => entry.vote),
+				cards,
+			)
 		: null;
 	const average = revealed
-		? calculateAverage(players.map((p) => p.vote))
+		? calculateAverage(
+				revealedVotes.map((entry) => entry.vote),
+				cards,
+			)
 		: null;
+	const stats = revealed ? analyzeVotes(revealedVotes, cards) : null;
+	const lowIds = new Set(stats?.outliers.low.map((o) => o.playerId));
+	const highIds = new Set(stats?.outliers.high.map((o) => o.playerId));
+	const lastPings = new Map<Id<"players">, number>(
+		presence?.map((p: Pick<Doc<"presence">, "playerId" | "lastPing">) => [
+			p.playerId,
+			p.lastPing,
+		]),
+	);
+	const currentRound = rounds?.find(
+		(round: Doc<"rounds">) => round._id === roomData.roundId,
+	);
+	const earlierAttempts = roomData.currentStoryId
+		? (rounds ?? [])
+				.filter(
+					(round: Doc<"rounds">) =>
+						round.storyId === roomData.currentStoryId &&
+						round._id !== roomData.roundId,
+				)
+				.reverse()
+		: [];
+
+	// The open thread: this story's comments not yet filed under an older round
+	const threadComments = (comments ?? []).filter(
+		(comment: Doc<"comments">) =>
+			comment.storyId === roomData.currentStoryId &&
+			(comment.roundId === undefined ||
+				(revealed && comment.roundId === roomData.roundId)),
+	);
+
+	const nudgedIds = new Set(
+		(events ?? [])
+			.filter((event: Doc<"events">) => event.kind === "nudge")
+			.map((event: Doc<"events">) => event.targetPlayerId),
+	);
+	const reactionsOn = (player: RoomPlayer) =>
+		(events ?? []).filter(
+			(event: Doc<"events">) =>
+				event.kind === "reaction" && event.targetPlayerId === player._id,
+		);
+
+	const statusOf = (player: RoomPlayer) =>
+		player.leftAt === undefined
+			? presenceStatus(lastPings.get(player._id), now)
+			: "offline";
+
+	// Co-facilitators have nothing to offer for the GM or each other
+	const playerMenu = (player: RoomPlayer) =>
+		self &&
+		player._id !== playerId &&
+		(isGM || canModerate(self, player)) && (
+			<PlayerMenu
+				player={player}
+				viewerIsGM={isGM}
+				moderatable={canModerate(self, player)}
+				onTransferGM={() => handleTransferGM(player._id)}
+				onSetCoFacilitator={(enabled) =>
+					handleSetCoFacilitator(player._id, enabled)
+				}
+				onForceObserver={() => handleForceObserver(player._id)}
+				onKick={(reason) => handleKickPlayer(player._id, reason)}
+			/>
+		);
+
+	// Where Shift+N and the palette's "Next story" go
+	const upcomingStory = nextPendingStory(
+		roomData.stories as Doc<"stories">[],
+		roomData.stories.find(
+			(story: Doc<"stories">) => story._id === roomData.currentStoryId,
+		)?.order,
+	);
+	const handleNextStory = upcomingStory
+		? () => handleSelectStory(upcomingStory._id)
+		: undefined;
+
+	const commands: Command[] = [
+		...(isFacilitator
+			? [
+					...(isVotingPhase(phase)
+						? [
+								{
+									id: "reveal",
+									group: "Round",
+									label: "Reveal cards",
+									shortcut: SHORTCUTS.reveal,
+									run: handleReveal,
+								},
+								{
+									id: "nudge",
+									group: "Round",
+									label: "Nudge players who haven't voted",
+									run: handleNudge,
+								},
+							]
+						: []),
+					...(phase === "revealed"
+						? [
+								{
+									id: "revote",
+									group: "Round",
+									label: "Re-vote",
+									run: handleRevote,
+								},
+							]
+						: []),
+					{
+						id: "reset",
+						group: "Round",
+						label: "Reset votes",
+						shortcut: SHORTCUTS.reset,
+						run: handleReset,
+					},
+					...(upcomingStory
+						? [
+								{
+									id: "next-story",
+									group: "Round",
+									label: `Next story: ${upcomingStory.title}`,
+									shortcut: SHORTCUTS.nextStory,
+									run: () => handleSelectStory(upcomingStory._id),
+								},
+							]
+						: []),
+					...DECK_PRESETS.filter(
+						(preset) =>
+							preset.id !== (roomData.deck?.preset ?? DECK_PRESETS[0].id),
+					).map((preset) => ({
+						id: `deck-${preset.id}`,
+						group: "Deck",
+						label: `Switch to ${preset.name}`,
+						run: () => handleSetDeck({ preset: preset.id }),
+					})),
+				]
+			: []),
+		{
+			id: "copy-link",
+			group: "Room",
+			label: "Copy invite link",
+			run: () => copyToClipboard("link", window.location.href),
+		},
+		...(roomData.joinCode
+			? [
+					{
+						id: "copy-code",
+						group: "Room",
+						label: `Copy join code ${roomData.joinCode}`,
+						run: () => copyToClipboard("code", roomData.joinCode),
+					},
+				]
+			: []),
+		...(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => ({
+			id: `export-${format}`,
+			group: "Room",
+			label: `Export as ${EXPORT_FORMATS[format].label}`,
+			run: () => handleExport(format),
+		})),
+		...(isGM
+			? [
+					{
+						id: "settings",
+						group: "Room",
+						label: "Room settings",
+						run: () => setSettingsOpen(true),
+					},
+				]
+			: []),
+		{
+			id: "role",
+			group: "You",
+			label: isObserver ? "Join voting" : "Switch to observer",
+			run: () => handleSetRole(isObserver ? "voter" : "observer"),
+		},
+		{
+			id: "leave",
+			group: "You",
+			label: "Leave room",
+			run: handleExitRoom,
+		},
+	];
 
 	// ── Main room UI ────────────────────────────────────────────────────────────
 	return (
 		<div className="h-[100dvh] bg-[#070a13] text-slate-100 flex flex-col overflow-hidden">
+			{/* ── Action error toast ─────────────────────────────────────────── */}
+			{actionError && (
+				<div
+					role="alert"
+					className="fixed top-[calc(env(safe-area-inset-top)+64px)] left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-red-500/15 border border-red-500/30 backdrop-blur-md text-red-300 text-xs font-semibold px-3.5 py-2 rounded-xl shadow-lg"
+				>
+					<span className="w-1.5 h-1.5 rounded-full bg-red-400 shrink-0" />
+					{actionError}
+				</div>
+			)}
+
+			{/* ── New GM notice ──────────────────────────────────────────────── */}
+			{becameGM && (
+				<div
+					aria-live="polite"
+					className="fixed top-[calc(env(safe-area-inset-top)+64px)] left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 bg-amber-400/15 border border-amber-400/30 backdrop-blur-md text-amber-200 text-xs font-semibold pl-3.5 pr-1.5 py-1.5 rounded-xl shadow-lg"
+				>
+					<Crown className="w-3.5 h-3.5 text-amber-400 shrink-0" />
+					You are now the game master
+					<button
+						type="button"
+						onClick={() => setBecameGM(false)}
+						className="h-6 px-2 rounded-lg text-amber-300 hover:bg-amber-400/10 transition-colors no-tap-highlight"
+					>
+						Got it
+					</button>
+				</div>
+			)}
+
+			{/* ── Nudge notice ───────────────────────────────────────────────── */}
+			{nudged && !becameGM && (
+				<div
+					aria-live="assertive"
+					className="fixed top-[calc(env(safe-area-inset-top)+64px)] left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 bg-amber-400/15 border border-amber-400/30 backdrop-blur-md text-amber-200 text-xs font-semibold pl-3.5 pr-1.5 py-1.5 rounded-xl shadow-lg"
+				>
+					<BellRing className="w-3.5 h-3.5 text-amber-400 shrink-0" />
+					Everyone is waiting for your card
+					<button
+						type="button"
+						onClick={() => setNudged(false)}
+						className="h-6 px-2 rounded-lg text-amber-300 hover:bg-amber-400/10 transition-colors no-tap-highlight"
+					>
+						OK
+					</button>
+				</div>
+			)}
+
+			{settingsOpen && isGM && (
+				<SettingsSheet
+					name={roomData.name}
+					settings={settings}
+					deck={roomData.deck}
+					hasPasscode={roomData.hasPasscode}
+					players={players}
+					backupGMId={roomData.backupGMId}
+					onChange={handleUpdateSettings}
+					onSetPasscode={handleSetPasscode}
+					onSetBackupGM={handleSetBackupGM}
+					onRename={handleRenameRoom}
+					onClose={() => setSettingsOpen(false)}
+				/>
+			)}
+
 			{/* ── Header ─────────────────────────────────────────────────────── */}
 			<header
 				className="shrink-0 bg-[#0d1120]/95 backdrop-blur-md border-b border-slate-800/60 flex items-center justify-between gap-2 px-4"
@@ -252,19 +1196,78 @@ function PokerRoom() {
 						<SpadeIcon className="w-4 h-4 text-white" />
 					</div>
 					<div className="min-w-0">
-						<h1 className="text-sm font-black text-white truncate leading-tight">
-							{roomName}
+						<h1 className="flex items-center gap-1 text-sm font-black text-white truncate leading-tight">
+							{roomData.hasPasscode && (
+								<Lock className="w-3 h-3 text-slate-500 shrink-0" />
+							)}
+							{roomData.name}
 						</h1>
 						<div className="flex items-center gap-1 text-[10px] text-slate-500 leading-tight">
 							<span className="w-1.5 h-1.5 rounded-full bg-emerald-500 shrink-0 animate-pulse" />
-							{players.length}{" "}
-							{players.length === 1 ? "player" : "players"}
+							{voters.length}{" "}
+							{voters.length === 1 ? "player" : "players"}
+							{observers.length > 0 && ` · ${observers.length} watching`}
+							{roomData.joinCode && (
+								<button
+									type="button"
+									onClick={() => copyToClipboard("code", roomData.joinCode)}
+									title="Copy join code"
+									className="ml-1 px-1 rounded font-mono font-bold tracking-wider text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors no-tap-highlight"
+								>
+									{copied === "code" ? "Copied" : roomData.joinCode}
+								</button>
+							)}
 						</div>
 					</div>
 				</div>
 
 				{/* Right: actions */}
 				<div className="flex items-center gap-1 shrink-0">
+					{roomData.timer && (
+						<TimerBadge timer={roomData.timer} clockOffset={clockOffset} />
+					)}
+					<RoomShortcuts
+						cards={allCards}
+						canVote={!isObserver && canChangeVote}
+						isFacilitator={isFacilitator}
+						commands={commands}
+						onVote={handleVote}
+						onReveal={
+							canReveal && isVotingPhase(phase) && votedCount > 0
+								? handleReveal
+								: undefined
+						}
+						onReset={isFacilitator ? handleReset : undefined}
+						onNextStory={isFacilitator ? handleNextStory : undefined}
+					/>
+					<NotificationMenu
+						prefs={notificationPrefs}
+						permission={notificationPermission}
+						onChange={(patch) => void updateNotificationPrefs(patch)}
+					/>
+					<ExportMenu onExport={handleExport} />
+					{isGM && (
+						<button
+							type="button"
+							onClick={() => setSettingsOpen(true)}
+							title="Room settings"
+							className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+						>
+							<Settings className="w-4 h-4" />
+						</button>
+					)}
+					<button
+						type="button"
+						onClick={() => handleSetRole(isObserver ? "voter" : "observer")}
+						title={isObserver ? "Switch to voting" : "Switch to observing"}
+						className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
+					>
+						{isObserver ? (
+							<Vote className="w-4 h-4" />
+						) : (
+							<Eye className="w-4 h-4" />
+						)}
+					</button>
 					<button
 						type="button"
 						onClick={handleExitRoom}
@@ -275,11 +1278,11 @@ function PokerRoom() {
 					</button>
 					<button
 						type="button"
-						onClick={copyRoomLink}
+						onClick={() => copyToClipboard("link", window.location.href)}
 						title="Copy room link"
 						className="w-9 h-9 flex items-center justify-center rounded-lg text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors no-tap-highlight"
 					>
-						{copied ? (
+						{copied === "link" ? (
 							<Check className="w-4 h-4 text-emerald-400" />
 						) : (
 							<Copy className="w-4 h-4" />
@@ -294,6 +1297,18 @@ function PokerRoom() {
 				style={{ paddingBottom: `${trayHeight + 8}px` }}
 			>
 				<div className="px-4 pt-4 space-y-3">
+					{/* Story backlog */}
+					<BacklogPanel
+						stories={roomData.stories}
+						currentStoryId={roomData.currentStoryId}
+						isGM={isFacilitator}
+						onAdd={handleAddStory}
+						onImport={handleImportStories}
+						onMove={handleMoveStory}
+						onSelect={handleSelectStory}
+						onSkip={handleSkipStory}
+					/>
+
 					{/* Vote progress bar */}
 					{!revealed && (
 						<div className="flex items-center gap-3">
@@ -301,13 +1316,27 @@ function PokerRoom() {
 								<div
 									className="h-full bg-gradient-to-r from-indigo-600 to-violet-500 rounded-full transition-all duration-700"
 									style={{
-										width: `${players.length ? (votedCount / players.length) * 100 : 0}%`,
+										width: `${activeVoters.length ? (votedCount / activeVoters.length) * 100 : 0}%`,
 									}}
 								/>
 							</div>
 							<span className="text-[10px] font-bold text-slate-600 shrink-0 tabular-nums">
-								{votedCount}/{players.length} voted
+								{votedCount}/{activeVoters.length} voted
 							</span>
+							{isFacilitator &&
+								isVotingPhase(phase) &&
+								votedCount > 0 &&
+								votedCount < activeVoters.length && (
+									<button
+										type="button"
+										onClick={handleNudge}
+										title="Remind everyone who hasn't picked a card"
+										className="h-6 flex items-center gap-1 bg-amber-400/15 hover:bg-amber-400/25 text-amber-300 text-[10px] font-bold px-2 rounded-md transition-colors no-tap-highlight"
+									>
+										<BellRing className="w-3 h-3 shrink-0" />
+										Nudge
+									</button>
+								)}
 						</div>
 					)}
 
@@ -316,33 +1345,73 @@ function PokerRoom() {
 						<ResultBanner
 							average={average!}
 							distribution={voteDistribution}
+							stats={stats ?? undefined}
+							anonymous={anonymousVotes !== null}
+							finalEstimate={currentRound?.finalEstimate}
+							rationales={rationales}
 						/>
 					)}
 
+					{/* Earlier votes on this story, for comparison */}
+					{earlierAttempts.length > 0 && (
+						<PreviousAttempts rounds={earlierAttempts} />
+					)}
+
 					{/* Players grid */}
 					<div className="grid grid-cols-3 gap-2.5">
-						{players.map((player) => {
+						{voters.map((player) => {
 							const isMe = player._id === playerId;
-							const hasVoted = !!player.vote;
+							const hasVoted = player.hasVoted;
 							const showVote = revealed && player.vote !== null;
+							const outlier = lowIds.has(player._id)
+								? "low"
+								: highIds.has(player._id)
+									? "high"
+									: null;
+							const isNudged =
+								!revealed && !hasVoted && nudgedIds.has(player._id);
 
 							return (
 								<div
 									key={player._id}
 									className={`relative flex flex-col rounded-2xl border overflow-hidden transition-all duration-300 ${
-										isMe
-											? "border-indigo-500/50 shadow-lg shadow-indigo-500/10"
-											: showVote
-												? "border-slate-300/15"
-												: "border-slate-800/70"
+										isNudged
+											? "border-amber-400 ring-2 ring-amber-400/40 animate-pulse"
+											: outlier === "low"
+												? "border-sky-400 ring-2 ring-sky-400/40"
+												: outlier === "high"
+													? "border-rose-400 ring-2 ring-rose-400/40"
+													: isMe
+														? "border-indigo-500/50 shadow-lg shadow-indigo-500/10"
+														: showVote
+															? "border-slate-300/15"
+															: "border-slate-800/70"
 									} ${showVote ? "bg-white" : "bg-[#0d1120]"}`}
 								>
+									<ReactionBurst reactions={reactionsOn(player)} />
+
 									{/* GM badge */}
 									{player.isGM && (
 										<div className="absolute top-1.5 left-1.5 z-10 bg-amber-400 text-black text-[7px] font-black uppercase tracking-tight px-1.5 py-0.5 rounded-md leading-none">
 											GM
 										</div>
 									)}
+									{player.isCoFacilitator && !player.isGM && (
+										<div className="absolute top-1.5 left-1.5 z-10 bg-amber-400/70 text-black text-[7px] font-black uppercase tracking-tight px-1.5 py-0.5 rounded-md leading-none">
+											CO
+										</div>
+									)}
+
+									{/* Outlier badge */}
+									{outlier && (
+										<div
+											className={`absolute top-1.5 right-1.5 z-10 text-white text-[7px] font-black uppercase tracking-tight px-1.5 py-0.5 rounded-md leading-none ${
+												outlier === "low" ? "bg-sky-500" : "bg-rose-500"
+											}`}
+										>
+											{outlier === "low" ? "Low" : "High"}
+										</div>
+									)}
 
 									{/* Avatar / vote */}
 									<div className="flex flex-1 items-center justify-center py-4 min-h-[72px]">
@@ -372,7 +1441,7 @@ function PokerRoom() {
 										className={`px-2 pb-2.5 text-center ${showVote ? "bg-white" : ""}`}
 									>
 										<p
-											className={`text-[9px] font-bold truncate leading-tight ${
+											className={`flex items-center justify-center gap-1 text-[9px] font-bold leading-tight ${
 												showVote
 													? "text-slate-400"
 													: isMe
@@ -380,14 +1449,84 @@ function PokerRoom() {
 														: "text-slate-600"
 											}`}
 										>
-											{player.nickname}
-											{isMe && " · me"}
+											<PresenceDot status={statusOf(player)} />
+											<span className="truncate">
+												{player.nickname}
+												{isMe && " · me"}
+											</span>
+											{playerMenu(player)}
 										</p>
 									</div>
 								</div>
 							);
 						})}
 					</div>
+
+					{/* Reactions */}
+					{self && <ReactionBar onReact={handleReact} />}
+
+					{/* Proof for taking this seat to another device */}
+					{roomData.reclaimCode && (
+						<p className="text-center text-[10px] text-slate-600">
+							Your reclaim code{" "}
+							<span className="font-black tracking-widest text-slate-400">
+								{roomData.reclaimCode}
+							</span>{" "}
+							· needed to continue as {self?.nickname} on another device
+						</p>
+					)}
+
+					{/* Observers */}
+					{observers.length > 0 && (
+						<div className="flex flex-wrap items-center gap-1.5">
+							<span className="flex items-center gap-1 text-[9px] font-bold text-slate-700 uppercase tracking-widest mr-1">
+								<Eye className="w-3 h-3" />
+								Watching
+							</span>
+							{observers.map((observer) => (
+								<span
+									key={observer._id}
+									className={`relative flex items-center gap-1 text-[10px] font-bold rounded-md px-1.5 py-0.5 bg-slate-800/60 ${
+										observer._id === playerId
+											? "text-indigo-400"
+											: "text-slate-500"
+									}`}
+								>
+									<ReactionBurst reactions={reactionsOn(observer)} />
+									<PresenceDot status={statusOf(observer)} />
+									{observer.isGM && (
+										<span className="bg-amber-400 text-black text-[7px] font-black uppercase px-1 rounded leading-tight">
+											GM
+										</span>
+									)}
+									{observer.isCoFacilitator && !observer.isGM && (
+										<span className="bg-amber-400/70 text-black text-[7px] font-black uppercase px-1 rounded leading-tight">
+											CO
+										</span>
+									)}
+									{observer.nickname}
+									{observer._id === playerId && " · me"}
+									{playerMenu(observer)}
+								</span>
+							))}
+						</div>
+					)}
+
+					{/* Discussion */}
+					<CommentThread
+						comments={threadComments}
+						canComment={!!self}
+						onAdd={handleAddComment}
+					/>
+
+					{/* Previous rounds */}
+					{rounds && rounds.length > 0 && (
+						<RoundHistory
+							rounds={rounds}
+							comments={comments ?? []}
+							anonymous={settings.anonymousResults}
+						/>
+					)}
 				</div>
 			</main>
 
@@ -402,190 +1541,129 @@ function PokerRoom() {
 					paddingTop: "12px",
 				}}
 			>
-				{/* GM controls row */}
-				{isGM && (
+				{/* Round timer */}
+				<TimerPanel
+					timer={roomData.timer}
+					clockOffset={clockOffset}
+					isGM={isFacilitator}
+					onStart={handleStartTimer}
+					onPause={handlePauseTimer}
+					onResume={handleResumeTimer}
+					onExtend={handleExtendTimer}
+					onStop={handleStopTimer}
+				/>
+
+				{/* Facilitator controls row */}
+				{isFacilitator && (
 					<div className="flex items-center gap-2 mb-3">
-						{/* Scale picker */}
-						<div className="flex items-center gap-1.5 flex-1">
-							<span className="text-[9px] font-bold text-slate-700 uppercase tracking-widest shrink-0">
-								Max
+						{/* Deck picker */}
+						<DeckPicker
+							deck={roomData.deck}
+							cards={cards}
+							onChange={handleSetDeck}
+						/>
+
+						{/* Round phase */}
+						<PhaseControls
+							phase={phase}
+							votedCount={votedCount}
+							allVoted={allVoted}
+							cards={allCards}
+							suggested={stats?.nearestCard ?? null}
+							onReveal={handleReveal}
+							onRevote={handleRevote}
+							onFinalize={handleFinalize}
+							onReset={handleReset}
+						/>
+					</div>
+				)}
+
+				{isObserver ? (
+					<div className="flex items-center justify-between gap-3">
+						<span className="flex items-center gap-1.5 text-[10px] font-bold text-slate-600 uppercase tracking-widest">
+							<Eye className="w-3.5 h-3.5" />
+							You're observing
+						</span>
+						<button
+							type="button"
+							onClick={() => handleSetRole("voter")}
+							className="h-8 flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold px-3 rounded-lg transition-colors no-tap-highlight"
+						>
+							<Vote className="w-3.5 h-3.5 shrink-0" />
+							Join voting
+						</button>
+					</div>
+				) : (
+					<>
+						{/* Card label */}
+						<div className="flex items-center justify-between mb-2.5">
+							<span className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">
+								{phase === "open"
+									? "Pick a card"
+									: phase === "revote"
+										? "Re-vote: pick a card"
+										: phase === "finalized"
+											? "Estimate agreed"
+											: canChangeVote
+												? "Change your card"
+												: "Voting closed"}
 							</span>
-							{[5, 8, 13, 21].map((num) => (
+							{myVote && canChangeVote && (
+								<span className="text-[10px] font-bold text-indigo-400 tabular-nums">
+									Selected: <span className="text-indigo-300">{myVote}</span>
+								</span>
+							)}
+							{!isFacilitator && canReveal && isVotingPhase(phase) && (
 								<button
-									key={num}
 									type="button"
-									onClick={() => handleSetMaxFib(num)}
-									className={`h-7 px-2.5 rounded-lg text-xs font-bold transition-colors no-tap-highlight ${
-										maxFib === num
-											? "bg-indigo-600 text-white shadow-sm"
-											: "text-slate-600 hover:text-slate-400 bg-slate-800/60 hover:bg-slate-800"
-									}`}
+									onClick={handleReveal}
+									disabled={votedCount === 0}
+									className="h-6 flex items-center gap-1 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-700 text-white text-[10px] font-bold px-2 rounded-md transition-colors no-tap-highlight"
 								>
-									{num}
+									<Eye className="w-3 h-3 shrink-0" />
+									Reveal
 								</button>
-							))}
+							)}
 						</div>
 
-						{/* Reveal / Reset */}
-						<div className="flex gap-1.5">
-							<button
-								type="button"
-								onClick={handleReveal}
-								disabled={revealed || votedCount === 0}
-								className="h-8 flex items-center gap-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-700 text-white text-xs font-bold px-3 rounded-lg transition-colors shadow-sm no-tap-highlight"
-							>
-								<Eye className="w-3.5 h-3.5 shrink-0" />
-								{allVoted ? "Reveal!" : "Reveal"}
-							</button>
-							<button
-								type="button"
-								onClick={handleReset}
-								className="h-8 w-8 flex items-center justify-center bg-slate-800 hover:bg-slate-700 text-slate-500 hover:text-slate-300 rounded-lg transition-colors no-tap-highlight"
-								title="Reset votes"
-							>
-								<RotateCcw className="w-3.5 h-3.5" />
-							</button>
+						{/* Why this card */}
+						{myVote && canChangeVote && (
+							<RationaleField
+								rationale={self?.rationale ?? ""}
+								onSave={handleSetRationale}
+							/>
+						)}
+
+						{/* Cards */}
+						<div className="grid grid-cols-5 gap-2">
+							{allCards.map((card) => {
+								const isSelected = myVote === card;
+								return (
+									<button
+										type="button"
+										key={card}
+										onClick={() => handleVote(card)}
+										disabled={!canChangeVote}
+										className={`relative h-14 rounded-xl text-lg font-black transition-all duration-150 border select-none no-tap-highlight ${
+											isSelected
+												? "bg-indigo-600 text-white border-indigo-400/60 shadow-lg shadow-indigo-500/30 -translate-y-2 scale-105 z-10"
+												: !canChangeVote
+													? "bg-[#0d1120] text-slate-800 border-slate-800/40 cursor-not-allowed"
+													: "bg-slate-100 text-slate-800 border-slate-200/10 shadow-md hover:-translate-y-1 hover:bg-white active:scale-95"
+										}`}
+									>
+										{card}
+									</button>
+								);
+							})}
 						</div>
-					</div>
+					</>
 				)}
-
-				{/* Card label */}
-				<div className="flex items-center justify-between mb-2.5">
-					<span className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">
-						{revealed ? "Voting closed" : "Pick a card"}
-					</span>
-					{myVote && !revealed && (
-						<span className="text-[10px] font-bold text-indigo-400 tabular-nums">
-							Selected: <span className="text-indigo-300">{myVote}</span>
-						</span>
-					)}
-				</div>
-
-				{/* Cards */}
-				<div className="grid grid-cols-5 gap-2">
-					{allCards.map((card) => {
-						const isSelected = myVote === card;
-						return (
-							<button
-								type="button"
-								key={card}
-								onClick={() => handleVote(card)}
-								disabled={revealed}
-								className={`relative h-14 rounded-xl text-lg font-black transition-all duration-150 border select-none no-tap-highlight ${
-									isSelected
-										? "bg-indigo-600 text-white border-indigo-400/60 shadow-lg shadow-indigo-500/30 -translate-y-2 scale-105 z-10"
-										: revealed
-											? "bg-[#0d1120] text-slate-800 border-slate-800/40 cursor-not-allowed"
-											: "bg-slate-100 text-slate-800 border-slate-200/10 shadow-md hover:-translate-y-1 hover:bg-white active:scale-95"
-								}`}
-							>
-								{card}
-							</button>
-						);
-					})}
-				</div>
 			</div>
 		</div>
 	);
 }
 
-// ── Result banner with distribution ────────────────────────────────────────
-type Distribution = { value: string; count: number; isNumeric: boolean }[];
-
-function ResultBanner({
-	average,
-	distribution,
-}: {
-	average: string;
-	distribution: Distribution;
-}) {
-	const maxCount = Math.max(...distribution.map((d) => d.count));
-
-	return (
-		<div className="relative overflow-hidden rounded-2xl border border-indigo-500/20 bg-gradient-to-br from-indigo-600/12 to-violet-600/8 p-4">
-			<div
-				className="absolute inset-0 pointer-events-none"
-				style={{
-					backgroundImage: `radial-gradient(circle at 50% 0%, rgba(99,102,241,0.15) 0%, transparent 55%)`,
-				}}
-			/>
-
-			{/* Average */}
-			<div className="relative text-center mb-4">
-				<p className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest mb-1">
-					Average
-				</p>
-				<div className="text-5xl font-black text-white leading-none">
-					{average}
-				</div>
-			</div>
-
-			{/* Distribution bars */}
-			{distribution.length > 0 && (
-				<div className="relative flex items-end justify-center gap-2">
-					{distribution.map((item) => {
-						const pct = maxCount > 0 ? (item.count / maxCount) * 100 : 0;
-						return (
-							<div key={item.value} className="flex flex-col items-center gap-1">
-								<span className="text-[9px] font-bold text-slate-400 tabular-nums">
-									{item.count}
-								</span>
-								<div className="w-8 bg-slate-800 rounded-t-md overflow-hidden flex flex-col justify-end" style={{ height: 32 }}>
-									<div
-										className={`w-full rounded-t-md transition-all duration-700 ${
-											item.isNumeric
-												? "bg-gradient-to-t from-indigo-700 to-indigo-500"
-												: "bg-slate-700"
-										}`}
-										style={{
-											height: `${Math.max(pct, 10)}%`,
-										}}
-									/>
-								</div>
-								<span className="text-[10px] font-black text-slate-400">
-									{item.value}
-								</span>
-							</div>
-						);
-					})}
-				</div>
-			)}
-		</div>
-	);
-}
-
-// ── Helpers ─────────────────────────────────────────────────────────────────
-function calculateAverage(votes: (string | null)[]): string {
-	const numericVotes = votes
-		.filter((v): v is string => v !== null && !Number.isNaN(Number(v)))
-		.map(Number);
-
-	if (numericVotes.length === 0) return "—";
-	const sum = numericVotes.reduce((a, b) => a + b, 0);
-	return (sum / numericVotes.length).toFixed(1);
-}
-
-function buildDistribution(votes: (string | null)[]): Distribution {
-	const counts = new Map<string, number>();
-	for (const v of votes) {
-		if (v !== null) {
-			counts.set(v, (counts.get(v) ?? 0) + 1);
-		}
-	}
-	return Array.from(counts.entries())
-		.map(([value, count]) => ({
-			value,
-			count,
-			isNumeric: !Number.isNaN(Number(value)),
-		}))
-		.sort((a, b) => {
-			if (a.isNumeric && b.isNumeric) return Number(a.value) - Number(b.value);
-			if (a.isNumeric) return -1;
-			if (b.isNumeric) return 1;
-			return a.value.localeCompare(b.value);
-		});
-}
-
 // ── SVG Icons ───────────────────────────────────────────────────────────────
 const SpaceInvader = ({ className }: { className?: string }) => (
 	<svg